@@ -1 +1,99 @@
-console.log("Hello via Bun!");
\ No newline at end of file
+export { default as Channel, type ChainKind, type MethodMap } from "./src/channel/Channel";
+export type { Chain, ChainResult, ReadChainResult, BulkChainResult, BulkItemResult } from "./src/channel/chain";
+export type { CreateChainResult } from "./src/channel/CreateChain";
+export type { UpdateChainResult } from "./src/channel/UpdateChain";
+export type { DeleteChainResult } from "./src/channel/DeleteChain";
+export type { RestoreChainResult } from "./src/channel/RestoreChain";
+export type { BulkCreateChainResult } from "./src/channel/BulkCreateChain";
+export type { BulkUpdateItem, BulkUpdateChainResult } from "./src/channel/BulkUpdateChain";
+export type { BulkDeleteChainResult } from "./src/channel/BulkDeleteChain";
+export type { ChainOptions, ChainTrace, TraceStep } from "./src/channel/ChainTrace";
+export type * from "./src/channel/endpoint.types";
+export type { JsonPatchOp, JsonPatchOperation } from "./src/channel/patch.util";
+
+// the dependencies of the chains
+export {
+  type ChannelContext,
+  type Logger,
+  configureChannel,
+  resetChannel,
+  getChannelContext,
+  createAjv,
+  logger,
+} from "./src/context/ChannelContext";
+export type * from "./src/types/level.types";
+export type * from "./src/types/user.types";
+export type * from "./src/types/util.types";
+
+// request adapters
+export {
+  type ChainRequest,
+  type RequestAdapter,
+  type AdapterOptions,
+  plainAdapter,
+  clientIP,
+  toIP,
+} from "./src/channel/adapters/RequestAdapter";
+export { elysiaAdapter, type LaunchingMaxContext } from "./src/channel/adapters/elysia";
+export { expressAdapter, type ExpressRequestLike } from "./src/channel/adapters/express";
+export { fastifyAdapter, type FastifyRequestLike } from "./src/channel/adapters/fastify";
+export { fetchAdapter, type FetchContext } from "./src/channel/adapters/fetch";
+export { honoAdapter, type HonoContextLike } from "./src/channel/adapters/hono";
+
+// policies
+export { levelResolver, LevelResolver, type InheritableLevel, type EffectiveLevel } from "./src/level/LevelResolver";
+export { validatePolicy, type PolicyProblem, type ValidatePolicyOptions } from "./src/schema/validatePolicy";
+export { endpointMetaSchema, levelMetaSchema } from "./src/schema/policy.schema";
+export { schemaRegistry, SchemaRegistry, compileSchema, type PrecompileResult } from "./src/schema/SchemaRegistry";
+export { registerTemplateVariable, type TemplateContext, type TemplateVariable } from "./src/channel/template.util";
+export { registerPrivateFields, type PrivateFieldsMode, type PrivateFieldsOptions } from "./src/channel/channel.util";
+export type { QueryPolicy, RegexPolicy } from "./src/channel/QueryFirewall";
+export { registerMask, type Masker, type ResponsePolicy } from "./src/channel/response.util";
+export { registerSoftDelete, type SoftDeleteOptions } from "./src/channel/softDelete.util";
+export { setTenantResolver, type TenantOptions, type TenantContext } from "./src/channel/tenant.util";
+export { setCursorSecret, type CursorOptions } from "./src/channel/cursor.util";
+export { generateOpenApi, type OpenApiDocument, type OpenApiOptions, type OpenApiRoute } from "./src/openapi/OpenApiGenerator";
+
+// rate limits
+export { setRateLimitStore, RateLimiter, type RateLimitAlgorithm, type RateLimitKey } from "./src/rate-limit/RateLimiter";
+export {
+  type RateLimitStore,
+  type StoreUpdate,
+  MemoryRateLimitStore,
+  NodeCacheRateLimitStore,
+} from "./src/rate-limit/RateLimitStore";
+export { FileRateLimitStore } from "./src/rate-limit/FileRateLimitStore";
+
+// audit
+export { registerAuditSink, removeAuditSink, REDACTED, type AuditOptions } from "./src/audit/audit.util";
+export {
+  type AuditEvent,
+  type AuditOutcome,
+  type AuditSink,
+  MemoryAuditSink,
+  FileAuditSink,
+  CallbackAuditSink,
+} from "./src/audit/AuditSink";
+
+// hooks
+export { registerHook, clearHooks } from "./src/hooks/hooks.util";
+export type { ChainHooks, HookContext, HookPhase, HookScope } from "./src/hooks/ChainHook";
+
+// storage
+export { type StorageProvider, type StoredFileInfo, MemoryStorageProvider } from "./src/storage/StorageProvider";
+export { LocalStorageProvider } from "./src/storage/LocalStorageProvider";
+export { S3StorageProvider, type S3StorageOptions } from "./src/storage/S3StorageProvider";
+export type { UploadConstraints, UploadPolicy } from "./src/storage/upload.util";
+
+// errors
+export { StatusError } from "./src/errors/StatusError";
+export * from "./src/errors/ProblemError";
+export {
+  ErrorCode,
+  registerMessages,
+  translate,
+  resolveLocale,
+  type MessageCatalog,
+  type ProblemMessage,
+} from "./src/errors/messages";
+export { BodyError, QueryError, TemplateError, LevelError, StorageError } from "./src/errors/Errors";
@@ -0,0 +1,74 @@
+import type { UserType } from "../types/user.types";
+import type { MaybePromise } from "../types/util.types";
+import { appendFileSync } from "node:fs";
+
+export type AuditOutcome = "allowed" | "denied";
+
+/**
+ * A decision of a chain. One event is emitted when `perform` succeeds and one for every check that denies the request.
+ */
+export type AuditEvent = {
+  timestamp: string;
+  user: { _id?: string; type?: UserType };
+  /** The resolved action, e.g. UpdatePost. */
+  action?: string;
+  /** The endpoint path. */
+  path: string;
+  ip?: string;
+  outcome: AuditOutcome;
+  /** The check that denied the request. */
+  step?: string;
+  /** The HTTP status of the denial. */
+  status?: number;
+  /** Why the request was denied. */
+  reason?: string;
+  filter?: any;
+  update?: any;
+  doc?: any;
+  options?: any;
+};
+
+export interface AuditSink {
+  write(event: AuditEvent): MaybePromise<void>;
+}
+
+/**
+ * Keeps the events in memory, useful for tests and for inspecting the last decisions.
+ * @param limit The maximum number of kept events, the oldest are dropped first.
+ */
+export class MemoryAuditSink implements AuditSink {
+  events: AuditEvent[] = [];
+
+  constructor(private limit = 1000) {}
+
+  write(event: AuditEvent) {
+    this.events.push(event);
+    if (this.events.length > this.limit) this.events.splice(0, this.events.length - this.limit);
+  }
+
+  clear() {
+    this.events = [];
+  }
+}
+
+/**
+ * Appends every event as a single JSON line to a file.
+ */
+export class FileAuditSink implements AuditSink {
+  constructor(private filePath: string) {}
+
+  write(event: AuditEvent) {
+    appendFileSync(this.filePath, JSON.stringify(event) + "\n");
+  }
+}
+
+/**
+ * Passes every event to a callback, e.g. to store it in a collection or send it to a log service.
+ */
+export class CallbackAuditSink implements AuditSink {
+  constructor(private callback: (event: AuditEvent) => MaybePromise<void>) {}
+
+  write(event: AuditEvent) {
+    return this.callback(event);
+  }
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import Channel from "../channel/Channel";
+import { MemoryAuditSink } from "./AuditSink";
+import { REDACTED, redact, registerAuditSink, removeAuditSink } from "./audit.util";
+
+class Post {}
+
+function start(...actions: string[]) {
+  const user: any = {
+    _id: "42",
+    type: "User",
+    level: {
+      actions,
+      access: { endpoints: { posts: { write: { baseAction: "Post", body: { useDefaultSchema: false } } } } },
+    },
+  };
+  return new Channel<any>().start(Post, user, "posts.write");
+}
+
+describe("audit", () => {
+  let sink: MemoryAuditSink;
+
+  beforeEach(() => registerAuditSink((sink = new MemoryAuditSink())));
+  afterEach(() => removeAuditSink(sink));
+
+  it("redacts the sensitive keys and the configured paths", () => {
+    const data = { password: "a", profile: { phone: "1", name: "b" } };
+    expect(redact(data, { redact: ["profile.phone"] })).toEqual({
+      password: REDACTED,
+      profile: { phone: REDACTED, name: "b" },
+    });
+  });
+
+  it("audits the data of a request denied by the constructor", () => {
+    expect(() => start().Create({ title: "a" })).toThrow();
+    expect(() => start().Update({ _id: "1" }, { title: "b" })).toThrow();
+    expect(() => start().Read({ _id: "2" })).toThrow();
+    expect(() => start().BulkUpdate([{ filter: { _id: "3" }, update: { title: "c" } }])).toThrow();
+
+    expect(sink.events.map(({ outcome, doc, filter, update }) => ({ outcome, doc, filter, update }))).toEqual([
+      { outcome: "denied", doc: { title: "a" }, filter: undefined, update: undefined },
+      { outcome: "denied", doc: undefined, filter: { _id: "1" }, update: { title: "b" } },
+      { outcome: "denied", doc: undefined, filter: { _id: "2" }, update: undefined },
+      { outcome: "denied", doc: undefined, filter: [{ _id: "3" }], update: [{ title: "c" }] },
+    ]);
+  });
+
+  it("audits the data of an allowed request", async () => {
+    await start("CreatePost").Create({ title: "a" }).perform();
+    expect(sink.events).toHaveLength(1);
+    expect(sink.events[0]).toMatchObject({ outcome: "allowed", action: "CreatePost", doc: { title: "a" } });
+  });
+});
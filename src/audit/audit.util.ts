@@ -0,0 +1,68 @@
+import { cloneDeepWith } from "lodash-es";
+import { findKeyPaths } from "../channel/path.util";
+import type { AuditEvent, AuditSink } from "./AuditSink";
+import { logger } from "../context/ChannelContext";
+
+export type AuditOptions = {
+  /** Stops emitting events for the endpoint. */
+  disabled?: boolean;
+  /** Path expressions of the fields to redact, e.g. `profile.phone` or `items[].card`. */
+  redact?: string[];
+  /** Patterns of key names to redact at any depth, added to the default ones. */
+  redactKeys?: string[];
+};
+
+export const REDACTED = "[REDACTED]";
+
+/** Key names that are always redacted: passwords, tokens, secrets and the urls of uploaded files. */
+const DEFAULT_REDACTED_KEYS = [/password/i, /token/i, /secret/i, /_file_url$/];
+
+const sinks: AuditSink[] = [];
+
+export function registerAuditSink(sink: AuditSink) {
+  sinks.push(sink);
+}
+
+export function removeAuditSink(sink: AuditSink) {
+  const index = sinks.indexOf(sink);
+  if (index > -1) sinks.splice(index, 1);
+}
+
+/**
+ * Returns a copy of the data where the values of sensitive keys and the configured paths are replaced.
+ */
+export function redact<T>(data: T, options?: AuditOptions): T {
+  if (data === undefined || data === null) return data;
+
+  const keys = [...DEFAULT_REDACTED_KEYS, ...(options?.redactKeys || []).map((pattern) => new RegExp(pattern))];
+  const copy = cloneDeepWith(data, (value, key) => {
+    if (typeof key === "string" && keys.some((pattern) => pattern.test(key))) return REDACTED;
+  });
+
+  for (const path of options?.redact || []) {
+    for (const match of findKeyPaths(copy, path)) match.parent[match.key] = REDACTED;
+  }
+  return copy;
+}
+
+/**
+ * Sends the event to every registered sink. A failing sink is logged and never fails the request.
+ */
+export function emitAuditEvent(event: AuditEvent, options?: AuditOptions) {
+  if (options?.disabled || !sinks.length) return;
+
+  const redacted: AuditEvent = {
+    ...event,
+    filter: redact(event.filter, options),
+    update: redact(event.update, options),
+    doc: redact(event.doc, options),
+  };
+
+  for (const sink of sinks) {
+    try {
+      Promise.resolve(sink.write(redacted)).catch((error) => logger.error("Audit sink failed", error));
+    } catch (error) {
+      logger.error("Audit sink failed", error);
+    }
+  }
+}
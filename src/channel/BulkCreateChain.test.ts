@@ -0,0 +1,41 @@
+import { describe, expect, it } from "bun:test";
+import { ErrorCode } from "../errors/messages";
+import Channel from "./Channel";
+
+class Post {}
+
+const schemas = { anyOf: [{ required: ["title"] }, { required: ["link"] }] };
+
+function bulkCreate(docs: any[], mode?: "atomic" | "partial") {
+  const endpoint = { baseAction: "Post", body: { schemas, default: [{ kind: "text" }, { kind: "link" }] }, bulk: { mode } };
+  const user: any = {
+    _id: "42",
+    type: "User",
+    level: { actions: ["CreatePost"], access: { endpoints: { posts: { bulk: endpoint } } } },
+  };
+  return new Channel<any>().start(Post, user, "posts.bulk").BulkCreate(docs);
+}
+
+describe("BulkCreateChain", () => {
+  it("gives every doc the defaults of its schema branch", async () => {
+    const { accepted }: any = await bulkCreate([{ title: "a" }, { link: "b" }, { title: "c" }]).perform();
+    expect(accepted.map((item: any) => item.doc)).toEqual([
+      { title: "a", kind: "text" },
+      { link: "b", kind: "link" },
+      { title: "c", kind: "text" },
+    ]);
+  });
+
+  it("rejects the batch if a doc is invalid", async () => {
+    await expect(bulkCreate([{ title: "a" }, { other: 1 }]).perform()).rejects.toMatchObject({
+      status: 422,
+      code: ErrorCode.BatchRejected,
+    });
+  });
+
+  it("reports the invalid docs of a partial batch", async () => {
+    const result: any = await bulkCreate([{ other: 1 }, { link: "b" }], "partial").perform();
+    expect(result.rejected).toBe(1);
+    expect(result.accepted.map((item: any) => item.doc)).toEqual([{ link: "b", kind: "link" }]);
+  });
+});
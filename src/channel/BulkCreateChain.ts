@@ -0,0 +1,82 @@
+import type { IP, UserDocument } from "../types/user.types";
+import type { CreateOptions } from "mongoose";
+import NodeCache from "node-cache";
+import type { ChainOptions } from "./ChainTrace";
+import CreateChain, { type CreateChainResult } from "./CreateChain";
+import type { KeyMatcher } from "./path.util";
+import type { BulkChainResult, Chain } from "./chain";
+import { logger } from "../context/ChannelContext";
+
+export type BulkCreateChainResult<I> = BulkChainResult<CreateChainResult<I>>;
+
+/**
+ * Creates a batch of docs. The action of the endpoint is checked once for the batch, the denied keys and the
+ * schema for every doc, and the result reports every doc with its index.
+ */
+export default class BulkCreateChain<I> extends CreateChain<I> {
+  protected hookFields = ["docs"];
+  private itemChecks: (() => Chain)[] = [];
+
+  constructor(
+    iModel: Function,
+    private docs: I[],
+    user: UserDocument,
+    path: string,
+    baseAction?: string,
+    cache?: NodeCache,
+    ip?: IP,
+    chainOptions?: ChainOptions
+  ) {
+    super(iModel, {} as I, user, path, baseAction, cache, ip, chainOptions, { doc: docs });
+    this.checkBatchSize(docs.length);
+  }
+
+  /**
+   * Checks the keys of every doc of the batch.
+   */
+  checkIfKeysExist(keys: string[], prefixAction?: string, shouldDelete: boolean = false): Chain {
+    if (this.currentItem !== undefined) return super.checkIfKeysExist(keys, prefixAction, shouldDelete);
+    this.itemChecks.push(() => super.checkIfKeysExist(keys, prefixAction, shouldDelete));
+    return this;
+  }
+
+  /**
+   * Checks the keys and values of every doc of the batch.
+   */
+  checkIfKeysValueExist(record: KeyMatcher, prefixAction?: string, shouldDelete: boolean = false): Chain {
+    if (this.currentItem !== undefined) return super.checkIfKeysValueExist(record, prefixAction, shouldDelete);
+    this.itemChecks.push(() => super.checkIfKeysValueExist(record, prefixAction, shouldDelete));
+    return this;
+  }
+
+  protected checkDoc() {
+    // the docs are checked one by one in perform
+    if (this.currentItem !== undefined) return super.checkDoc();
+  }
+
+  async perform<T = BulkCreateChainResult<I>>(options?: CreateOptions): Promise<T> {
+    return await this.lifecycle(async () => {
+      // every doc may match another schema branch, so each one keeps its own defaults
+      const defaults = new Map<number, any>();
+      const result = await this.performItems(
+        this.docs,
+        (doc, index) => {
+          this.doc = doc;
+          defaults.set(index, this.checkDoc());
+          this.itemChecks.forEach((check) => check());
+        },
+        async (doc, index) => {
+          this.doc = doc;
+          const prepared = await this.prepareDoc(defaults.get(index));
+          return { doc: prepared, options, filter: this.endpoint?.query?.default } as CreateChainResult<I>;
+        }
+      );
+      logger.info("Running Bulk Create operation", { accepted: result.accepted.length, rejected: result.rejected });
+      return result as T;
+    });
+  }
+
+  protected auditData(): { doc: any } {
+    return { doc: this.currentItem !== undefined ? this.doc : this.docs };
+  }
+}
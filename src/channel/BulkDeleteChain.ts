@@ -0,0 +1,79 @@
+import type { IP, UserDocument } from "../types/user.types";
+import type { FilterQuery, QueryOptions } from "mongoose";
+import NodeCache from "node-cache";
+import type { ChainOptions } from "./ChainTrace";
+import DeleteChain, { type DeleteChainResult } from "./DeleteChain";
+import type { KeyMatcher } from "./path.util";
+import type { BulkChainResult, Chain } from "./chain";
+import { logger } from "../context/ChannelContext";
+
+export type BulkDeleteChainResult<I> = BulkChainResult<DeleteChainResult<I>>;
+
+/**
+ * Runs a batch of deletes. The action of the endpoint is checked once for the batch, every filter like a
+ * DeleteChain would, and the result reports every filter with its index.
+ */
+export default class BulkDeleteChain<I> extends DeleteChain<I> {
+  protected hookFields = ["filters"];
+  private itemChecks: (() => Chain)[] = [];
+
+  constructor(
+    iModel: Function,
+    private filters: FilterQuery<I>[],
+    user: UserDocument,
+    path: string,
+    baseAction?: string,
+    cache?: NodeCache,
+    ip?: IP,
+    chainOptions?: ChainOptions
+  ) {
+    super(iModel, {}, user, path, baseAction, cache, ip, chainOptions, { filter: filters });
+    this.checkBatchSize(filters.length);
+  }
+
+  /**
+   * Checks the keys of every filter of the batch.
+   */
+  checkIfKeysExist(deniedKeys?: string[], prefixAction?: string | undefined): Chain {
+    if (this.currentItem !== undefined) return super.checkIfKeysExist(deniedKeys, prefixAction);
+    this.itemChecks.push(() => super.checkIfKeysExist(deniedKeys, prefixAction));
+    return this;
+  }
+
+  /**
+   * Checks the keys and values of every filter of the batch.
+   */
+  checkIfKeysValueExist(record: KeyMatcher, prefixAction?: string | undefined): Chain {
+    if (this.currentItem !== undefined) return super.checkIfKeysValueExist(record, prefixAction);
+    this.itemChecks.push(() => super.checkIfKeysValueExist(record, prefixAction));
+    return this;
+  }
+
+  protected checkFilter(filter: any) {
+    // the filters are checked one by one in perform
+    if (this.currentItem !== undefined) super.checkFilter(filter);
+  }
+
+  async perform<T = BulkDeleteChainResult<I>>(options?: QueryOptions): Promise<T> {
+    return await this.lifecycle(async () => {
+      const result = await this.performItems(
+        this.filters,
+        (filter) => {
+          this.filter = filter;
+          this.checkFilter(filter);
+          this.itemChecks.forEach((check) => check());
+        },
+        async (filter) => {
+          this.filter = filter;
+          return this.prepareDelete(options);
+        }
+      );
+      logger.info("Running Bulk Delete Operation", { accepted: result.accepted.length, rejected: result.rejected });
+      return result as T;
+    });
+  }
+
+  protected auditData() {
+    return { filter: this.currentItem !== undefined ? this.filter : this.filters };
+  }
+}
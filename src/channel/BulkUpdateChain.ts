@@ -0,0 +1,91 @@
+import type { IP, UserDocument } from "../types/user.types";
+import type { FilterQuery, UpdateQuery } from "mongoose";
+import NodeCache from "node-cache";
+import type { ChainOptions } from "./ChainTrace";
+import UpdateChain, { type UpdateChainResult } from "./UpdateChain";
+import type { KeyMatcher } from "./path.util";
+import type { BulkChainResult, Chain } from "./chain";
+import { logger } from "../context/ChannelContext";
+
+export type BulkUpdateItem<I> = {
+  filter: FilterQuery<I>;
+  update: UpdateQuery<I>;
+};
+
+export type BulkUpdateChainResult<I> = BulkChainResult<UpdateChainResult<I>>;
+
+/**
+ * Runs a batch of updates. The action of the endpoint is checked once for the batch, the filter and the update of
+ * every item like an UpdateChain would, and the result reports every item with its index.
+ */
+export default class BulkUpdateChain<I> extends UpdateChain<I> {
+  protected hookFields = ["items"];
+  private itemChecks: (() => Chain)[] = [];
+
+  constructor(
+    iModel: Function,
+    private items: BulkUpdateItem<I>[],
+    user: UserDocument,
+    path: string,
+    baseAction?: string,
+    cache?: NodeCache,
+    ip?: IP,
+    chainOptions?: ChainOptions
+  ) {
+    super(iModel, {}, {}, user, path, baseAction, cache, ip, chainOptions, {
+      filter: items.map((item) => item.filter),
+      update: items.map((item) => item.update),
+    });
+    this.checkBatchSize(items.length);
+  }
+
+  /**
+   * Checks the keys of every update of the batch.
+   */
+  checkIfKeysExist(keys: string[], prefixAction?: string, shouldDelete: boolean = false): Chain {
+    if (this.currentItem !== undefined) return super.checkIfKeysExist(keys, prefixAction, shouldDelete);
+    this.itemChecks.push(() => super.checkIfKeysExist(keys, prefixAction, shouldDelete));
+    return this;
+  }
+
+  /**
+   * Checks the keys and values of every update of the batch.
+   */
+  checkIfKeysValueExist(record: KeyMatcher, prefixAction?: string, shouldDelete: boolean = false): Chain {
+    if (this.currentItem !== undefined) return super.checkIfKeysValueExist(record, prefixAction, shouldDelete);
+    this.itemChecks.push(() => super.checkIfKeysValueExist(record, prefixAction, shouldDelete));
+    return this;
+  }
+
+  protected checkUpdate() {
+    // the items are checked one by one in perform
+    if (this.currentItem !== undefined) super.checkUpdate();
+  }
+
+  async perform<T = BulkUpdateChainResult<I>>(): Promise<T> {
+    return await this.lifecycle(async () => {
+      const result = await this.performItems(
+        this.items,
+        (item) => {
+          this.filter = item.filter;
+          this.update = item.update;
+          this.checkUpdate();
+          this.itemChecks.forEach((check) => check());
+        },
+        async (item) => {
+          this.filter = item.filter;
+          this.update = item.update;
+          return (await this.prepareUpdate()) as UpdateChainResult<I>;
+        }
+      );
+      logger.info("Running Bulk Update Operation", { accepted: result.accepted.length, rejected: result.rejected });
+      return result as T;
+    });
+  }
+
+  protected auditData() {
+    // the items aren't assigned yet while the constructor checks run
+    if (this.currentItem !== undefined || !this.items) return { filter: this.filter, update: this.update };
+    return { filter: this.items.map((item) => item.filter), update: this.items.map((item) => item.update) };
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "bun:test";
+import Channel from "./Channel";
+
+class Post {}
+
+function explainCreate(body: any, ...actions: string[]) {
+  const user: any = {
+    _id: "1",
+    type: "User",
+    level: {
+      actions,
+      access: {
+        endpoints: { posts: { create: { baseAction: "Post", body: { useDefaultSchema: false, deniedKeys: ["owner"] } } } },
+      },
+    },
+  };
+  return new Channel<any>()
+    .start(Post, user, "posts.create", undefined, undefined, undefined, { dryRun: true })
+    .Create(body)
+    .explain();
+}
+
+describe("explain", () => {
+  it("traces the checks of an allowed request", async () => {
+    const trace = await explainCreate({ title: "a" }, "CreatePost");
+    expect(trace.passed).toBe(true);
+    expect(trace.action).toBe("CreatePost");
+    expect(trace.steps.find((step) => step.step === "checkAction")).toMatchObject({
+      passed: true,
+      details: { requiredAction: "CreatePost" },
+    });
+    expect(trace.result.doc).toEqual({ title: "a" });
+  });
+
+  it("records every failed check of a denied request without throwing", async () => {
+    const trace = await explainCreate({ title: "a", owner: "b" });
+    expect(trace.passed).toBe(false);
+    expect(trace.steps.filter((step) => !step.passed).map((step) => step.step)).toContain("checkAction");
+  });
+});
@@ -0,0 +1,36 @@
+import type { UserType } from "../types/user.types";
+
+export type ChainOptions = {
+  /**
+   * Runs every check without throwing. Failed checks are only recorded in the trace and side effects,
+   * like moving uploaded files or counting the request against the rate limit, are skipped.
+   */
+  dryRun?: boolean;
+  /** The route params of the request, available to the templates as `*params.name*`. */
+  params?: Record<string, any>;
+};
+
+export type TraceStep = {
+  /** Name of the check, e.g. checkAction, checkIfKeysExist or validateBodySchema. */
+  step: string;
+  passed: boolean;
+  /** The values the check received. */
+  input?: any;
+  /** What the check decided, e.g. the required action, the deleted keys or the matched schema branch. */
+  details: Record<string, any>;
+  /** The error the check threw, only set if it did not pass. */
+  error?: any;
+  /** The index of the item of a bulk chain the check ran on. */
+  item?: number;
+};
+
+export type ChainTrace = {
+  path: string;
+  user: { _id?: string; type?: UserType };
+  action?: string;
+  /** True when every step passed, i.e. the request would not be denied. */
+  passed: boolean;
+  steps: TraceStep[];
+  /** The final filter, update, doc and options the chain produced. */
+  result?: any;
+};
@@ -1,15 +1,31 @@
-import { LaunchingMaxContext } from "@libs/app/LaunchingMax";
-import { StatusError } from "@libs/errors/StatusError";
-import { IP, UserDocument } from "@models/user.model";
+import { StatusError } from "../errors/StatusError";
+import { type ChannelContext, configureChannel } from "../context/ChannelContext";
+import type { ChainHooks, HookPhase, HookScope } from "../hooks/ChainHook";
+import { registerHook } from "../hooks/hooks.util";
+import type { IP, UserDocument } from "../types/user.types";
 import { isEmpty } from "lodash-es";
-import { FilterQuery, UpdateQuery } from "mongoose";
+import type { FilterQuery, UpdateQuery } from "mongoose";
 import NodeCache from "node-cache";
-import { FindFilter } from "room/query/types";
+import type { FindFilter } from "../types/util.types";
 import CreateChain from "./CreateChain";
 import DeleteChain from "./DeleteChain";
 import ReadChain from "./ReadChain";
 import UpdateChain from "./UpdateChain";
-import { Chain } from "./chain";
+import PatchChain from "./PatchChain";
+import BulkCreateChain from "./BulkCreateChain";
+import BulkUpdateChain, { type BulkUpdateItem } from "./BulkUpdateChain";
+import BulkDeleteChain from "./BulkDeleteChain";
+import RestoreChain from "./RestoreChain";
+import { type TenantOptions, setTenantResolver } from "./tenant.util";
+import type { JsonPatchOperation } from "./patch.util";
+import type { ChainOptions, ChainTrace } from "./ChainTrace";
+import type { Chain } from "./chain";
+import type { ChainRequest, RequestAdapter } from "./adapters/RequestAdapter";
+import { type LaunchingMaxContext, elysiaAdapter } from "./adapters/elysia";
+
+export type ChainKind = "create" | "read" | "update" | "patch" | "delete";
+
+export type MethodMap = Record<string, ChainKind>;
 
 class ChannelMethod<I> {
   constructor(
@@ -18,59 +34,170 @@ class ChannelMethod<I> {
     private path: string,
     private baseAction?: string,
     private cache?: NodeCache,
-    private ip?: IP
+    private ip?: IP,
+    private options?: ChainOptions
   ) {}
 
   Create(doc: I): Chain {
-    return new CreateChain(this.iModel, doc, this.user, this.path, this.baseAction, this.cache, this.ip);
+    return new CreateChain(this.iModel, doc, this.user, this.path, this.baseAction, this.cache, this.ip, this.options);
   }
 
   Read(filter: FindFilter<I>): Chain {
-    return new ReadChain(this.iModel, filter, this.user, this.path, this.baseAction, this.cache, this.ip);
+    return new ReadChain(this.iModel, filter, this.user, this.path, this.baseAction, this.cache, this.ip, this.options);
   }
 
   Update(filter: FilterQuery<I>, update: UpdateQuery<I>): Chain {
-    return new UpdateChain<I>(this.iModel, filter, update, this.user, this.path, this.baseAction, this.cache, this.ip);
+    return new UpdateChain<I>(
+      this.iModel,
+      filter,
+      update,
+      this.user,
+      this.path,
+      this.baseAction,
+      this.cache,
+      this.ip,
+      this.options
+    );
+  }
+
+  /**
+   * @param patch An RFC 6902 JSON Patch or an RFC 7396 Merge Patch.
+   */
+  Patch(filter: FilterQuery<I>, patch: JsonPatchOperation[] | Record<string, any>): Chain {
+    return new PatchChain<I>(
+      this.iModel,
+      filter,
+      patch,
+      this.user,
+      this.path,
+      this.baseAction,
+      this.cache,
+      this.ip,
+      this.options
+    );
   }
 
   Delete(filter: FilterQuery<I>): Chain {
-    return new DeleteChain(this.iModel, filter, this.user, this.path, this.baseAction, this.cache, this.ip);
+    return new DeleteChain(this.iModel, filter, this.user, this.path, this.baseAction, this.cache, this.ip, this.options);
+  }
+
+  Restore(filter: FilterQuery<I>): Chain {
+    return new RestoreChain(this.iModel, filter, this.user, this.path, this.baseAction, this.cache, this.ip, this.options);
+  }
+
+  BulkCreate(docs: I[]): Chain {
+    return new BulkCreateChain(this.iModel, docs, this.user, this.path, this.baseAction, this.cache, this.ip, this.options);
+  }
+
+  BulkUpdate(items: BulkUpdateItem<I>[]): Chain {
+    return new BulkUpdateChain<I>(this.iModel, items, this.user, this.path, this.baseAction, this.cache, this.ip, this.options);
+  }
+
+  BulkDelete(filters: FilterQuery<I>[]): Chain {
+    return new BulkDeleteChain<I>(this.iModel, filters, this.user, this.path, this.baseAction, this.cache, this.ip, this.options);
   }
 }
 
 export default class Channel<I> {
-  start(iModel: Function, user: UserDocument, path: string, baseAction?: string, cache?: NodeCache, ip?: IP) {
-    return new ChannelMethod<I>(iModel, user, path, baseAction, cache, ip);
-  }
-
-  static createChain<I>(ctx: LaunchingMaxContext<I>, iModel: Function, baseAction?: string): Chain {
-    const {
-      body,
-      query,
-      params,
-      ip,
-      endpointKey,
-      user,
-      request: { method },
-      store: { cache },
-      baseAction: ba,
-    } = ctx;
-    switch (method) {
-      case "POST":
-        return new CreateChain(iModel, body, user!, endpointKey, baseAction || ba, cache, ip);
-      case "PUT":
-        return new UpdateChain(iModel, isEmpty(params) ? query : params, body!, user!, endpointKey, baseAction, cache, ip);
-      case "DELETE":
-        return new DeleteChain(iModel, isEmpty(params) ? query : params, user!, endpointKey, baseAction, cache, ip);
-      case "GET":
-        return new ReadChain(iModel, isEmpty(params) ? query : params, user!, endpointKey, baseAction, cache, ip);
+  start(
+    iModel: Function,
+    user: UserDocument,
+    path: string,
+    baseAction?: string,
+    cache?: NodeCache,
+    ip?: IP,
+    options?: ChainOptions
+  ) {
+    return new ChannelMethod<I>(iModel, user, path, baseAction, cache, ip, options);
+  }
+
+  /**
+   * Maps the HTTP methods to the kind of chain they create. It can be changed, e.g. `Channel.methods.PATCH = "update"` to accept mongo updates.
+   */
+  static methods: MethodMap = {
+    POST: "create",
+    GET: "read",
+    HEAD: "read",
+    PUT: "update",
+    PATCH: "patch",
+    DELETE: "delete",
+  };
+
+  /**
+   * Scopes every chain to the tenant derived from the request, e.g.
+   * `Channel.setTenantResolver({ resolve: ({ user }) => user?.organization, field: "organization" })`.
+   */
+  static setTenantResolver(options?: TenantOptions) {
+    setTenantResolver(options);
+  }
+
+  /**
+   * Registers a hook for every chain or the chains of an endpoint or base action, e.g.
+   * `Channel.hook("transformResult", ({ result }) => ({ ...result, lean: true }), { path: "posts.read" })`.
+   * @returns A function removing the hook.
+   */
+  static hook<P extends HookPhase>(phase: P, handler: ChainHooks[P], scope?: HookScope) {
+    return registerHook(phase, handler, scope);
+  }
+
+  /**
+   * Replaces dependencies of the chains, e.g. `Channel.configure({ logger, moveFieldsFile })`. The others keep their
+   * default implementations.
+   */
+  static configure(overrides: Partial<ChannelContext>) {
+    configureChannel(overrides);
+  }
+
+  static createChain<I>(ctx: LaunchingMaxContext<I>, iModel: Function, baseAction?: string, options?: ChainOptions): Chain {
+    return Channel.fromRequest(elysiaAdapter.toRequest(ctx), iModel, baseAction, options);
+  }
+
+  /**
+   * Creates the chain of a request extracted by any adapter.
+   */
+  static fromRequest(request: ChainRequest, iModel: Function, baseAction?: string, options?: ChainOptions): Chain {
+    const { method, body, query, params, ip, endpointKey, user, cache, baseAction: ba } = request;
+    options = { params, ...options };
+    const filter = isEmpty(params) ? query : params;
+    switch (Channel.methods[method.toUpperCase()]) {
+      case "create":
+        return new CreateChain(iModel, body, user!, endpointKey, baseAction || ba, cache, ip, options);
+      case "update":
+        return new UpdateChain(iModel, filter!, body!, user!, endpointKey, baseAction, cache, ip, options);
+      case "patch":
+        return new PatchChain(iModel, filter!, body!, user!, endpointKey, baseAction, cache, ip, options);
+      case "delete":
+        return new DeleteChain(iModel, filter!, user!, endpointKey, baseAction, cache, ip, options);
+      case "read":
+        return new ReadChain(iModel, filter as any, user!, endpointKey, baseAction, cache, ip, options);
       default:
         throw new StatusError(500, "Unknown Method", `There is a no Chain to create for method ${method}`);
     }
   }
 
+  /**
+   * Creates the chain of a request of any framework, e.g. `Channel.adapt(expressAdapter(), req, Post)`.
+   */
+  static async adapt<C>(
+    adapter: RequestAdapter<C>,
+    ctx: C,
+    iModel: Function,
+    baseAction?: string,
+    options?: ChainOptions
+  ): Promise<Chain> {
+    return Channel.fromRequest(await adapter.toRequest(ctx), iModel, baseAction, options);
+  }
+
   static async performChain<I>(ctx: LaunchingMaxContext<I>, iModel: Function) {
     const chain = Channel.createChain(ctx, iModel);
     return await chain.perform();
   }
+
+  /**
+   * Runs every check of the chain of the request without throwing and returns the decision trace.
+   */
+  static async explainChain<I>(ctx: LaunchingMaxContext<I>, iModel: Function): Promise<ChainTrace> {
+    const chain = Channel.createChain(ctx, iModel, undefined, { dryRun: true });
+    return await chain.explain();
+  }
 }
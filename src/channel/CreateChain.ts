@@ -1,15 +1,16 @@
-import ajv from "@libs/ajv/ajv";
-import { StatusError } from "@libs/errors/StatusError";
-import { logger } from "@libs/logger";
-import { moveFieldsFile } from "@libs/s3/s3.util";
-import { KeyValue, Uploads } from "@models/user-level.model";
-import { IP, UserDocument } from "@models/user.model";
-import { isEmpty, merge, set, uniqBy } from "lodash-es";
-import { CreateOptions, UpdateQuery } from "mongoose";
+import type { IP, UserDocument } from "../types/user.types";
+import { merge, uniqBy } from "lodash-es";
+import type { CreateOptions, UpdateQuery } from "mongoose";
 import NodeCache from "node-cache";
-import { getEntity } from "room/decorators/decorator.util";
+import { ConditionFailedError, SchemaViolationError } from "../errors/ProblemError";
 import { validateDataSchema } from "./DataValidationSchema";
-import { BaseChain, Chain } from "./chain";
+import type { ChainOptions } from "./ChainTrace";
+import { matchesFilter } from "./condition.util";
+import { type KeyMatcher, deleteKeyPaths, findKeyPaths } from "./path.util";
+import { BaseChain, type AuditData, type Chain } from "./chain";
+import { compileSchema } from "../schema/SchemaRegistry";
+import { getEntity, logger } from "../context/ChannelContext";
+import type { UploadPolicy } from "../storage/upload.util";
 
 export type CreateChainResult<I> = {
   doc: I;
@@ -18,93 +19,114 @@ export type CreateChainResult<I> = {
 };
 
 export default class CreateChain<I> extends BaseChain {
+  protected hookFields = ["doc"];
+  /** The default values of the doc, picked by `checkDoc`. */
+  private defaults?: any;
+
   constructor(
     iModel: Function,
-    private doc: I,
+    protected doc: I,
     user: UserDocument,
     path: string,
     baseAction?: string,
     cache?: NodeCache,
-    ip?: IP
+    ip?: IP,
+    chainOptions?: ChainOptions,
+    requestData: AuditData = { doc }
   ) {
-    super(iModel, user, path, "Create", baseAction, cache, ip);
+    super(iModel, user, path, "Create", baseAction, cache, ip, chainOptions, requestData);
   }
 
   checkIfKeysExist(keys: string[], prefixAction?: string, shouldDelete: boolean = false): Chain {
     return this._checkIfKeysExist(this.doc as Record<string, any>, keys, prefixAction, shouldDelete);
   }
-  checkIfKeysValueExist(record: KeyValue, prefixAction?: string, shouldDelete: boolean = false): Chain {
+  checkIfKeysValueExist(record: KeyMatcher, prefixAction?: string, shouldDelete: boolean = false): Chain {
     return this._checkIfKeysValueExist(this.doc as Record<string, any>, record, prefixAction, shouldDelete);
   }
 
   protected async prePerform() {
     await super.prePerform();
+    this.defaults = this.checkDoc();
+  }
 
+  /**
+   * Runs the checks of the endpoint on the doc: the denied keys, the schema and the conditions of the action.
+   * @returns The default values of the doc, the ones of the matched schema branch if the defaults are per branch.
+   */
+  protected checkDoc(): any {
+    let defaults = this.endpoint?.body?.default;
     if (this.endpoint?.body?.deniedKeys) this.checkIfKeysExist(this.endpoint.body.deniedKeys, undefined, true);
 
     if (this.endpoint?.body?.deniedKeysValue) this.checkIfKeysValueExist(this.endpoint.body.deniedKeysValue, undefined, true);
 
     if (this.endpoint?.body?.schemas) {
       // this validate filter against the defined schema
-
-      const { isValid, defaultValue, errors } = validateDataSchema(
-        this.doc,
-        this.endpoint?.body.schemas,
-        this.endpoint.body.default
-      );
-      if (!isValid)
-        throw new StatusError(
-          403,
-          "Restricted Data",
-          "The data you provided violates some of our policies. Check it or consulate support.",
-          errors
-        );
-      set(this.endpoint.body, "default", defaultValue);
+      const body = this.endpoint.body;
+      this.traceStep("validateBodySchema", this.doc, (details) => {
+        const { isValid, defaultValue, errors, branch } = validateDataSchema(this.doc, body.schemas, body.default);
+        Object.assign(details, { branch, default: defaultValue, errors });
+        if (!isValid) throw new SchemaViolationError("data", errors);
+        defaults = defaultValue;
+      });
     } else if ([undefined, true].includes(this.endpoint?.body?.useDefaultSchema)) {
-      const validate = ajv.compile(getEntity(this.iModel, "docs:model"));
-      const valid = validate(this.doc);
-      if (!valid)
-        throw new StatusError(
-          403,
-          "Restricted Data",
-          "The data you provided violates some of our policies. Check it or consulate support.",
-          validate.errors
-        );
+      this.traceStep("validateModelSchema", this.doc, (details) => {
+        const validate = compileSchema(getEntity(this.iModel, "docs:model"));
+        const valid = validate(this.doc);
+        details.errors = validate.errors;
+        if (!valid) throw new SchemaViolationError("data", validate.errors);
+      });
+    }
+
+    const condition = this.conditionFilter();
+    if (condition) {
+      this.traceStep("checkConditions", condition, () => {
+        // the conditions are checked on the doc as it will be created, with the default values of the endpoint
+        const doc = merge({}, this.resolveClientTemplates(this.doc), this.resolveTemplates(defaults || {}));
+        if (!matchesFilter(doc, condition)) throw new ConditionFailedError(this.resolvedAction());
+      });
     }
+    return defaults;
   }
 
   async perform<T = CreateChainResult<I>>(options?: CreateOptions): Promise<T> {
-    await this.prePerform();
+    return await this.lifecycle(async () => {
+      await this.validate();
+      const doc = await this.prepareDoc(this.defaults);
+      logger.info("Running Create operation", doc);
+      this.audit("allowed", { doc, options });
+      return { doc, options, filter: this.endpoint?.query?.default } as T;
+    });
+  }
 
-    let tempUploads: Uploads[] = [];
+  /**
+   * Resolves the templates and the default values of the doc, checks and moves its uploaded files and sets its tenant.
+   * The protected fields are removed from the doc of the client.
+   * @param defaults The default values returned by `checkDoc`.
+   */
+  protected async prepareDoc(defaults?: any): Promise<I> {
+    let tempUploads: UploadPolicy[] = [];
 
     const uploadFile = (key: string, value: any) => {
-      if (key.endsWith("_file_url") && typeof value === "string") {
-        tempUploads.push({
-          field: key,
-          acl: "authenticated-read",
-          directory: `users/${this.user._id?.toString()}/${this.baseAction}`,
-        });
-      }
+      if (key.endsWith("_file_url") && typeof value === "string") tempUploads.push(this.fileUpload(key));
     };
 
-    let doc = this.setCurrentUser(merge({}, this.doc, this.endpoint?.body?.default || {}), uploadFile);
+    const body = this.resolveClientTemplates(this.doc, uploadFile);
+    deleteKeyPaths(this.protectedFields().flatMap((field) => findKeyPaths(body, field)));
 
-    let files = {};
+    let doc = merge({}, body, this.resolveTemplates(defaults || {}, { onValue: uploadFile }));
 
     let uploads = this.endpoint?.body?.uploads || [];
 
-    uploads = uploads.map((u) => ({ ...u, directory: u.directory.replaceAll("*current_user*", this.user?._id!.toString()) }));
+    uploads = uploads.map((u) => ({ ...u, directory: this.resolveTemplates(u.directory, { stringify: true }) }));
 
     tempUploads.unshift(...uploads);
-    tempUploads = uniqBy(tempUploads, "field");
+    tempUploads = uniqBy(tempUploads, "field").map((u) => ({ ...u, directory: this.uploadDirectory(u.directory) }));
 
-    if (!isEmpty(tempUploads)) {
-      files = await moveFieldsFile(tempUploads, doc);
-    }
+    const files = await this.moveUploads(tempUploads, doc);
+    return this.stampTenant(merge({}, doc, files));
+  }
 
-    doc = merge({}, doc, files);
-    logger.info("Running Create operation", doc);
-    return { doc, options, filter: this.endpoint?.query?.default } as T;
+  protected auditData() {
+    return { doc: this.doc };
   }
 }
@@ -1,12 +1,14 @@
-import ajv from "@libs/ajv/ajv";
-import { AnySchemaObject, ErrorObject } from "ajv";
+import type { AnySchemaObject, ErrorObject } from "ajv";
 import { cloneDeep, isArray } from "lodash-es";
+import { compileSchema } from "../schema/SchemaRegistry";
 
 interface ValidationResult<T> {
   errors?: ErrorObject[] | null;
   defaultValue?: T;
   defaultOption?: any;
   isValid?: boolean;
+  /** Index of the matched `anyOf` branch, if the schema has one. */
+  branch?: number;
 }
 
 function getDefault(obj: any, index: number) {
@@ -26,10 +28,11 @@ export function validateDataSchema<T>(data: T, schema: AnySchemaObject, defaultD
   let defaultValue = defaultData;
   let defaultOption = defaultOpt;
   let isValid: boolean;
+  let branch: number | undefined;
 
   if (schema.anyOf) {
-    const index = schema.anyOf.findIndex((subSchema) => {
-      const validate = ajv.compile(subSchema);
+    const index = schema.anyOf.findIndex((subSchema: AnySchemaObject) => {
+      const validate = compileSchema(subSchema);
       const res = validate(excludeFields(data));
 
       if (!res) errors = validate.errors;
@@ -38,13 +41,14 @@ export function validateDataSchema<T>(data: T, schema: AnySchemaObject, defaultD
     });
     if (index > -1) {
       isValid = true;
+      branch = index;
       defaultValue = schema.anyOf[index].default ? schema.anyOf[index].default : getDefault(defaultData, index);
       defaultOption = schema.anyOf[index].options ? schema.anyOf[index].options : getDefault(defaultOpt, index);
     } else {
       isValid = false;
     }
   } else {
-    const validate = ajv.compile(schema);
+    const validate = compileSchema(schema);
     const res = validate(excludeFields(data));
     if (!res) {
       isValid = false;
@@ -61,5 +65,6 @@ export function validateDataSchema<T>(data: T, schema: AnySchemaObject, defaultD
     defaultValue,
     defaultOption,
     isValid,
+    branch,
   };
 }
@@ -1,69 +1,80 @@
-import { KeyValue } from "@libs/security/action";
-import { IP, UserDocument } from "@models/user.model";
-import { FilterQuery, QueryOptions } from "mongoose";
-import { BaseChain, Chain, ChainResult } from "./chain";
+import type { IP, UserDocument } from "../types/user.types";
+import type { FilterQuery, QueryOptions, UpdateQuery } from "mongoose";
+import type { KeyMatcher } from "./path.util";
+import { BaseChain, type AuditData, type Chain, type ChainResult } from "./chain";
+import type { ChainOptions } from "./ChainTrace";
 import NodeCache from "node-cache";
-import { logger } from "@libs/logger";
-import { makeQuery } from "@libs/utility";
-import { validateDataSchema } from "./DataValidationSchema";
-import { StatusError } from "@libs/errors/StatusError";
-import { set } from "lodash-es";
+import { combineFilters } from "./condition.util";
+import { getSoftDelete, notDeletedFilter, softDeleteUpdate } from "./softDelete.util";
+import { logger, makeQuery } from "../context/ChannelContext";
 
 export type DeleteChainResult<I> = ChainResult<I> & {
   filter: FilterQuery<I>;
   options: QueryOptions<I>;
+  /** Set if the model uses soft deletes, the documents must be updated with it instead of deleted. */
+  update?: UpdateQuery<I>;
 };
 
 export default class DeleteChain<I> extends BaseChain {
+  protected hookFields = ["filter"];
+
   constructor(
     iModel: Function,
-    private filter: FilterQuery<I>,
+    protected filter: FilterQuery<I>,
     user: UserDocument,
     path: string,
     baseAction?: string,
     cache?: NodeCache,
-    ip?: IP
+    ip?: IP,
+    chainOptions?: ChainOptions,
+    requestData: AuditData = { filter }
   ) {
-    super(iModel, user, path, "Delete", baseAction, cache, ip);
+    super(iModel, user, path, "Delete", baseAction, cache, ip, chainOptions, requestData);
   }
 
   checkIfKeysExist(deniedKeys?: string[], prefixAction?: string | undefined): Chain {
     return this._checkIfKeysExist(this.filter, deniedKeys, prefixAction);
   }
-  checkIfKeysValueExist(record: KeyValue, prefixAction?: string | undefined): Chain {
+  checkIfKeysValueExist(record: KeyMatcher, prefixAction?: string | undefined): Chain {
     return this._checkIfKeysValueExist(this.filter, record, prefixAction);
   }
 
   protected async prePerform(): Promise<void> {
     await super.prePerform();
+    this.checkFilter(this.filter);
+  }
 
-    if (this.endpoint?.query?.deniedKeys) this.checkIfKeysExist(this.endpoint.query.deniedKeys);
-
-    if (this.endpoint?.query?.deniedKeysValue) this.checkIfKeysValueExist(this.endpoint.query.deniedKeysValue);
+  async perform<T = DeleteChainResult<I>>(options?: QueryOptions): Promise<T> {
+    return await this.lifecycle(async () => {
+      await this.validate();
+      const result = this.prepareDelete(options);
+      logger.info("Running Delete Operation", this.filter);
+      this.audit("allowed", result);
+      return result as T;
+    });
+  }
 
-    if (this.endpoint?.query?.schemas) {
-      // this validate filter against the defined schema
-      const { defaultValue, errors, isValid } = validateDataSchema(
-        this.filter,
-        this.endpoint?.query?.schemas,
-        this.endpoint?.query?.default
-      );
+  /**
+   * Merges the filter with the default filter of the endpoint and the conditions of the action. If the model uses
+   * soft deletes, the documents that are not deleted yet are marked as deleted by the current user instead.
+   */
+  protected prepareDelete(options?: QueryOptions): DeleteChainResult<I> {
+    const filter = this.scopeTenant(
+      this.scopeConditions(
+        makeQuery(this.filter, this.defaultFilter() as any, this.endpoint?.query?.merge, this.endpoint?.query?.isPrior)
+      )
+    );
+    const softDelete = getSoftDelete(this.iModel, this.endpoint?.softDelete);
+    if (!softDelete) return { filter, options } as DeleteChainResult<I>;
 
-      if (!isValid)
-        throw new StatusError(403, "Restricted Query", "The query you provided is not allowed by the system.", errors);
-      set(this.endpoint?.query, "default", defaultValue);
-    }
+    return {
+      filter: combineFilters(filter, notDeletedFilter(softDelete)),
+      update: softDeleteUpdate(softDelete, this.user),
+      options,
+    } as DeleteChainResult<I>;
   }
 
-  async perform<T = DeleteChainResult<I>>(options?: QueryOptions): Promise<T> {
-    await this.prePerform();
-    const filter = makeQuery(
-      this.filter,
-      this.endpoint?.query?.default,
-      this.endpoint?.query?.merge,
-      this.endpoint?.query?.isPrior
-    );
-    logger.info("Running Delete Operation", this.filter);
-    return { filter: filter, options } as T;
+  protected auditData() {
+    return { filter: this.filter };
   }
 }
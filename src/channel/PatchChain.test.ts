@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import { PatchInvalidError } from "../errors/ProblemError";
+import { ErrorCode } from "../errors/messages";
+import Channel from "./Channel";
+
+class Post {}
+
+function start(endpoint: Record<string, any>, ...actions: string[]) {
+  const user: any = {
+    _id: "42",
+    type: "User",
+    level: {
+      actions: ["UpdatePost", ...actions],
+      access: { endpoints: { posts: { patch: { baseAction: "Post", body: { useDefaultSchema: false }, ...endpoint } } } },
+    },
+  };
+  return new Channel<any>().start(Post, user, "posts.patch");
+}
+
+function patchPost(filter: any, patch: any) {
+  return start({ query: { default: { status: "draft" }, deniedKeys: ["secret"] } }).Patch(filter, patch);
+}
+
+describe("PatchChain", () => {
+  it("translates a JSON Patch and narrows the filter with its tests", async () => {
+    const { filter, update }: any = await patchPost({ _id: "1" }, [
+      { op: "test", path: "/_id", value: "2" },
+      { op: "test", path: "/votes", value: { $gt: 0 } },
+      { op: "replace", path: "/title", value: "a" },
+    ]).perform();
+    expect(update).toEqual({ $set: { title: "a" } });
+    expect(filter).toEqual({
+      _id: "1",
+      status: "draft",
+      $and: [{ _id: { $eq: "2" } }, { votes: { $eq: { $gt: 0 } } }],
+    });
+  });
+
+  it("requires the change action of every changed path", async () => {
+    const body = { useDefaultSchema: false, patch: { checkChangeActions: true } };
+    const patch = (operations: any) =>
+      start({ body }, "ChangePostTitle", "ChangePostProfile").Patch({ _id: "1" }, operations).perform();
+
+    const { update }: any = await patch([
+      { op: "replace", path: "/title", value: "a" },
+      { op: "replace", path: "/profile", value: { email: "a@b.c" } },
+    ]);
+    expect(update).toEqual({ $set: { title: "a", profile: { email: "a@b.c" } } });
+    await expect(patch([{ op: "replace", path: "/profile/email", value: "a@b.c" }])).rejects.toMatchObject({
+      code: ErrorCode.KeyDenied,
+      params: { action: "ChangePostProfileEmail" },
+    });
+    await expect(patch([{ op: "add", path: "/items/0/price", value: 1 }])).rejects.toMatchObject({
+      params: { action: "ChangePostItemsPrice" },
+    });
+  });
+
+  it("rejects an add to the end of the document", () => {
+    expect(() => patchPost({ _id: "1" }, [{ op: "add", path: "/-", value: 1 }])).toThrow(PatchInvalidError);
+  });
+
+  it("rejects the tests of denied keys", async () => {
+    await expect(patchPost({ _id: "1" }, [{ op: "test", path: "/secret", value: "x" }]).perform()).rejects.toMatchObject({
+      status: 403,
+      code: ErrorCode.KeyDenied,
+      params: { action: "UpdatePostSecret" },
+    });
+  });
+});
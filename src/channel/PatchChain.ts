@@ -0,0 +1,79 @@
+import type { IP, UserDocument } from "../types/user.types";
+import type { FilterQuery } from "mongoose";
+import NodeCache from "node-cache";
+import { isEmpty } from "lodash-es";
+import type { ChainOptions } from "./ChainTrace";
+import { combineFilters } from "./condition.util";
+import UpdateChain from "./UpdateChain";
+import { type JsonPatchOperation, translatePatch } from "./patch.util";
+import { isPositional, normalizeUpdate } from "./update.util";
+
+/**
+ * Converts the path of an update into a key path, the array indexes become `[]`, e.g. items.0.price into items[].price.
+ */
+function toKeyPath(path: string) {
+  return path
+    .split(".")
+    .reduce(
+      (key, segment) => (/^\d+$/.test(segment) || isPositional(segment) ? `${key}[]` : key ? `${key}.${segment}` : segment),
+      ""
+    );
+}
+
+/**
+ * Accepts an RFC 6902 JSON Patch or an RFC 7396 Merge Patch. The patch is translated into a mongo update, then it
+ * goes through every check of the UpdateChain and produces the same result.
+ */
+export default class PatchChain<I> extends UpdateChain<I> {
+  /** The conditions of the test operations. */
+  private tests?: Record<string, any>;
+
+  constructor(
+    iModel: Function,
+    filter: FilterQuery<I>,
+    private patch: JsonPatchOperation[] | Record<string, any>,
+    user: UserDocument,
+    path: string,
+    baseAction?: string,
+    cache?: NodeCache,
+    ip?: IP,
+    chainOptions?: ChainOptions
+  ) {
+    super(iModel, filter, {}, user, path, baseAction, cache, ip, chainOptions, { filter, doc: patch });
+
+    this.traceStep("translatePatch", patch, (details) => {
+      const translation = translatePatch(patch, this.endpoint?.body?.patch?.deniedOps);
+      this.update = translation.update;
+      if (!isEmpty(translation.filter)) this.tests = translation.filter;
+      Object.assign(details, translation);
+    });
+  }
+
+  /**
+   * The test operations are preconditions of the document, so they narrow the filter after the default filter of the
+   * endpoint is merged, like the conditions of the action.
+   */
+  protected scopeConditions<F>(filter: F): F {
+    return super.scopeConditions(combineFilters(filter as Record<string, any>, this.tests) as F);
+  }
+
+  protected async prePerform(): Promise<void> {
+    await super.prePerform();
+
+    if (this.tests) {
+      // a denied key of a test is rejected, as removing the test would apply the patch unconditionally
+      if (this.endpoint?.query?.deniedKeys) this._checkIfKeysExist(this.tests, this.endpoint.query.deniedKeys);
+      if (this.endpoint?.query?.deniedKeysValue) this._checkIfKeysValueExist(this.tests, this.endpoint.query.deniedKeysValue);
+      this.checkQueryPolicy(this.tests);
+    }
+
+    if (this.endpoint?.body?.patch?.checkChangeActions) {
+      const fields = [...new Set(normalizeUpdate(this.update).map((effect) => toKeyPath(effect.path)))];
+      this.checkIfKeysExist(fields, "Change");
+    }
+  }
+
+  protected auditData() {
+    return { filter: this.filter, tests: this.tests, update: this.update, doc: this.patch };
+  }
+}
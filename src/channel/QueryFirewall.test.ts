@@ -0,0 +1,45 @@
+import { describe, expect, it } from "bun:test";
+import { QueryRestrictedError } from "../errors/ProblemError";
+import { ErrorCode } from "../errors/messages";
+import Channel from "./Channel";
+import { validatePopulatePolicy, validateQueryPolicy } from "./QueryFirewall";
+
+class Post {}
+
+function read(query: Record<string, any>) {
+  const user: any = {
+    _id: "1",
+    type: "User",
+    level: {
+      actions: ["ReadPost"],
+      access: {
+        endpoints: {
+          posts: { read: { baseAction: "Post", query: { policy: { forbiddenOperators: ["$regex"], maxDepth: 3 } } } },
+        },
+      },
+    },
+  };
+  return new Channel<any>().start(Post, user, "posts.read").Read(query);
+}
+
+describe("QueryFirewall", () => {
+  it("accepts the filters following the policy", () => {
+    expect(() => validateQueryPolicy({ $or: [{ status: "draft" }, { views: { $gt: 3 } }] }, { maxDepth: 4 })).not.toThrow();
+    expect(() => validatePopulatePolicy([{ path: "author", match: { active: true } }])).not.toThrow();
+  });
+
+  it("keeps the default forbidden operators when the endpoint forbids others", () => {
+    const policy = { forbiddenOperators: ["$regex"] };
+    expect(() => validateQueryPolicy({ $where: "sleep(1000)" }, policy)).toThrow(QueryRestrictedError);
+    expect(() => validateQueryPolicy({ title: { $regex: "^a" } }, policy)).toThrow(QueryRestrictedError);
+  });
+
+  it("checks the matches of the populated paths", async () => {
+    const populate = JSON.stringify([{ path: "author", populate: { path: "team", match: { $where: "true" } } }]);
+    await expect(read({ populate }).perform()).rejects.toMatchObject({ status: 403, code: ErrorCode.QueryRestricted });
+    await expect(read({ populate: { path: "author", match: { name: { $regex: "a" } } } }).perform()).rejects.toMatchObject({
+      status: 403,
+    });
+    await expect(read({ populate: { path: "author", match: { active: true } } }).perform()).resolves.toBeDefined();
+  });
+});
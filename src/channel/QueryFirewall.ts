@@ -0,0 +1,124 @@
+import { isPlainObject } from "lodash-es";
+import { QueryRestrictedError } from "../errors/ProblemError";
+
+export type RegexPolicy = {
+  /** Whether `$regex` and regular expression values are allowed at all. Defaults to true. */
+  allow?: boolean;
+  /** Requires every pattern to start with `^`, so an index can be used. Defaults to false. */
+  anchored?: boolean;
+  /** Maximum length of a pattern. */
+  maxLength?: number;
+};
+
+/**
+ * The rules a filter must follow before it reaches the database. Every level of the filter is checked,
+ * including the filters nested in `$or`, `$and`, `$nor` and `$elemMatch`.
+ */
+export type QueryPolicy = {
+  /** If set, only these operators can be used. */
+  allowedOperators?: string[];
+  /** Operators that can never be used, besides `$where`, `$expr`, `$function` and `$accumulator` which are always forbidden. */
+  forbiddenOperators?: string[];
+  /** Maximum nesting depth of the filter. Defaults to 8. */
+  maxDepth?: number;
+  /** Maximum number of values of `$in`, `$nin` and `$all`. Defaults to 1000. */
+  maxInSize?: number;
+  regex?: RegexPolicy;
+  /** Whether keys like `profile.email` are allowed. Defaults to true. */
+  allowDotPaths?: boolean;
+  /** If set, only these fields (or their sub paths) can be queried. */
+  allowedPaths?: string[];
+};
+
+const DEFAULT_FORBIDDEN_OPERATORS = ["$where", "$expr", "$function", "$accumulator"];
+const ARRAY_OPERATORS = ["$in", "$nin", "$all"];
+
+function reject(msg: string, location: string): never {
+  throw new QueryRestrictedError(msg, location || undefined);
+}
+
+function join(location: string, key: string | number) {
+  if (typeof key === "number") return `${location}[${key}]`;
+  return location ? `${location}.${key}` : key;
+}
+
+function checkRegex(pattern: string | RegExp, policy: QueryPolicy, location: string) {
+  const regex = policy.regex;
+  const source = pattern instanceof RegExp ? pattern.source : String(pattern);
+  if (regex?.allow === false) reject("Regular expressions are not allowed in the query.", location);
+  if (regex?.anchored && !source.startsWith("^")) reject("Regular expressions in the query must start with ^.", location);
+  if (regex?.maxLength && source.length > regex.maxLength)
+    reject(`Regular expressions in the query can not be longer than ${regex.maxLength} characters.`, location);
+}
+
+function checkOperator(operator: string, value: any, policy: QueryPolicy, location: string) {
+  if (DEFAULT_FORBIDDEN_OPERATORS.includes(operator) || policy.forbiddenOperators?.includes(operator))
+    reject(`The operator ${operator} is not allowed in the query.`, location);
+  if (policy.allowedOperators && !policy.allowedOperators.includes(operator))
+    reject(`The operator ${operator} is not allowed in the query.`, location);
+
+  if (ARRAY_OPERATORS.includes(operator) && Array.isArray(value)) {
+    const max = policy.maxInSize ?? 1000;
+    if (value.length > max) reject(`The operator ${operator} can not have more than ${max} values.`, location);
+  }
+
+  if (operator === "$regex") checkRegex(value, policy, location);
+}
+
+function checkField(field: string, fieldPath: string, policy: QueryPolicy, location: string) {
+  if (policy.allowDotPaths === false && field.includes("."))
+    reject(`Nested paths like ${field} are not allowed in the query.`, location);
+
+  if (policy.allowedPaths && !policy.allowedPaths.some((p) => fieldPath === p || fieldPath.startsWith(p + ".")))
+    reject(`The field ${fieldPath} can not be queried.`, location);
+}
+
+function walk(node: any, policy: QueryPolicy, fieldPath: string, location: string, depth: number) {
+  const maxDepth = policy.maxDepth ?? 8;
+  if (depth > maxDepth) reject(`The query can not be nested deeper than ${maxDepth} levels.`, location);
+
+  if (node instanceof RegExp) return checkRegex(node, policy, location);
+
+  if (Array.isArray(node)) {
+    node.forEach((item, index) => walk(item, policy, fieldPath, join(location, index), depth));
+    return;
+  }
+
+  if (!isPlainObject(node)) return;
+
+  for (const key of Object.keys(node)) {
+    const value = node[key];
+    const keyLocation = join(location, key);
+    if (key.startsWith("$")) {
+      checkOperator(key, value, policy, keyLocation);
+      walk(value, policy, fieldPath, keyLocation, depth + 1);
+    } else {
+      const path = fieldPath ? `${fieldPath}.${key}` : key;
+      checkField(key, path, policy, keyLocation);
+      walk(value, policy, path, keyLocation, depth + 1);
+    }
+  }
+}
+
+/**
+ * Checks the whole filter tree against the query policy of the endpoint.
+ * @param location Where the filter is in the request, e.g. populate[0].match.
+ * @throws {QueryRestrictedError} If any part of the filter violates the policy.
+ */
+export function validateQueryPolicy(filter: any, policy: QueryPolicy = {}, location = "") {
+  walk(filter, policy, "", location, 0);
+}
+
+/**
+ * Checks the `match` of every populate entry, and of the nested ones, against the query policy of the endpoint.
+ * @throws {QueryRestrictedError} If a match violates the policy.
+ */
+export function validatePopulatePolicy(populate: any, policy: QueryPolicy = {}, location = "populate") {
+  const entries = Array.isArray(populate) ? populate : [populate];
+  entries.forEach((entry, index) => {
+    if (!isPlainObject(entry)) return;
+    const current = Array.isArray(populate) ? join(location, index) : location;
+    if (entry.match !== undefined) validateQueryPolicy(entry.match, policy, join(current, "match"));
+    if (entry.populate) validatePopulatePolicy(entry.populate, policy, join(current, "populate"));
+  });
+}
@@ -1,17 +1,44 @@
-import { StatusError } from "@libs/errors/StatusError";
-import { KeyValue } from "@libs/security/action";
-import { makeQuery, makeQueryOption, parseNestedObject, parseObject } from "@libs/utility";
-import { IP, UserDocument } from "@models/user.model";
+import { parseNestedObject, parseObject } from "./query.util";
+import type { IP, UserDocument } from "../types/user.types";
 import Ajv from "ajv";
-import { isEmpty, isUndefined, omitBy, set } from "lodash-es";
+import { isEmpty, isUndefined, omit, omitBy, set } from "lodash-es";
 import NodeCache from "node-cache";
-import { FindFilter } from "room/query/types";
-import { BaseChain, Chain, ReadChainResult } from "./chain";
-import { validatePopulatePrivateFields } from "./channel.util";
-import { logger } from "@libs/logger";
+import type { FindFilter } from "../types/util.types";
+import type { ChainOptions } from "./ChainTrace";
+import { type KeyMatcher, keyPathToAction } from "./path.util";
+import { filterResponse } from "./response.util";
+import { BaseChain, type Chain, type ReadChainResult } from "./chain";
+import { sanitizeSelect, validatePopulatePrivateFields } from "./channel.util";
+import { QueryRestrictedError, SchemaViolationError } from "../errors/ProblemError";
 import { validateDataSchema } from "./DataValidationSchema";
+import { combineFilters } from "./condition.util";
+import { validatePopulatePolicy } from "./QueryFirewall";
+import {
+  type Cursor,
+  type CursorOptions,
+  type SortKey,
+  cursorFilter,
+  decodeCursor,
+  encodeCursor,
+  normalizeSort,
+  toMongoSort,
+} from "./cursor.util";
+import { constructAction, logger, makeQuery, makeQueryOption } from "../context/ChannelContext";
+
+/**
+ * Parses the populate option of a client, a path, a populate object or a list of them, each one may be a JSON string.
+ */
+function parsePopulate(populate: any): any[] | undefined {
+  const pop = parseObject(populate);
+  if (isEmpty(pop)) return undefined;
+  return (Array.isArray(pop) ? pop : [pop]).map(parseObject);
+}
 
 export default class ReadChain<I> extends BaseChain {
+  protected hookFields = ["filter"];
+  /** The sort and the page size of the page in cursor mode, to issue the cursor of the next page. */
+  private pagination?: { sort: SortKey[]; limit?: number };
+
   constructor(
     iModel: Function,
     private filter: FindFilter<I>,
@@ -19,9 +46,10 @@ export default class ReadChain<I> extends BaseChain {
     path: string,
     baseAction?: string,
     cache?: NodeCache,
-    ip?: IP
+    ip?: IP,
+    chainOptions?: ChainOptions
   ) {
-    super(iModel, user, path, "Read", baseAction, cache, ip);
+    super(iModel, user, path, "Read", baseAction, cache, ip, chainOptions, { filter });
   }
 
   checkIfKeysExist(deniedKeys?: string[], prefixAction?: string | undefined, shouldDelete: boolean = false): Chain {
@@ -29,7 +57,7 @@ export default class ReadChain<I> extends BaseChain {
     return this._checkIfKeysExist(this.filter, keys, prefixAction, shouldDelete);
   }
 
-  checkIfKeysValueExist(record?: KeyValue, prefixAction?: string | undefined, shouldDelete: boolean = false): Chain {
+  checkIfKeysValueExist(record?: KeyMatcher, prefixAction?: string | undefined, shouldDelete: boolean = false): Chain {
     const keys = this.endpoint?.query?.deniedKeysValue || record;
     return this._checkIfKeysValueExist(this.filter, keys, prefixAction, shouldDelete);
   }
@@ -43,52 +71,152 @@ export default class ReadChain<I> extends BaseChain {
       this._checkIfKeysValueExist(this.filter, this.endpoint.query.deniedKeysValue, undefined, true);
 
     this.filter = parseNestedObject(this.filter);
-    if (this.endpoint?.query?.schemas) {
-      // this validate filter against the defined schema
-
-      const { defaultValue, errors, isValid, defaultOption } = validateDataSchema(
-        this.filter,
-        this.setCurrentUser(this.endpoint?.query?.schemas, undefined, true),
-        this.endpoint?.query?.default,
-        this.endpoint?.query?.options
-      );
 
-      if (!isValid) {
-        let msg = `The query you provided is not allowed by the system.`;
-        if (errors) msg = `The query you provided is not allowed by the system. Your query ${errors[errors!.length - 1].message}`;
+    const readKeys = ["itemsCount", "page", "projection", "sort", "populate", ...(this.cursorOptions() ? ["cursor"] : [])];
+    this.checkQueryPolicy(omit(this.filter, readKeys));
+    const populate = parsePopulate(this.filter.populate);
+    if (populate)
+      this.traceStep("checkPopulatePolicy", populate, () => validatePopulatePolicy(populate, this.endpoint?.query?.policy));
 
-        throw new StatusError(403, "Restricted Query", msg, errors);
-      }
-      set(this.endpoint?.query, "default", defaultValue);
-      set(this.endpoint?.query, "options", defaultOption);
+    if (this.endpoint?.query?.schemas) {
+      // this validate filter against the defined schema
+      const query = this.endpoint.query;
+      this.traceStep("validateQuerySchema", this.filter, (details) => {
+        const { defaultValue, errors, isValid, defaultOption, branch } = validateDataSchema(
+          this.filter,
+          this.resolveTemplates(query.schemas, { stringify: true }),
+          query.default,
+          query.options
+        );
+        Object.assign(details, { branch, default: defaultValue, options: defaultOption, errors });
+
+        if (!isValid) throw new SchemaViolationError("query", errors);
+        set(query, "default", defaultValue);
+        set(query, "options", defaultOption);
+      });
     }
   }
 
   async perform<T = ReadChainResult<I>>(): Promise<T> {
-    await this.prePerform();
+    return await this.lifecycle(async () => {
+      await this.validate();
+
+      const { projection, populate, ...query } = this.filter;
+      const { filter: _filter, itemsCount, page, sort, after } = this.paginate(query);
+
+      const filter = combineFilters(
+        this.scopeTenant(
+          this.excludeDeleted(
+            this.scopeConditions(
+              makeQuery(_filter, this.defaultFilter() as any, this.endpoint?.query?.merge, this.endpoint?.query?.isPrior)
+            )
+          )
+        ),
+        after && cursorFilter(after)
+      );
+      const newPop = parsePopulate(populate);
+      const privateFields = this.endpoint?.query?.privateFields;
+      const selection = this.traceStep("checkPrivateFields", { projection, populate: newPop }, (details) => {
+        const sanitized = {
+          projection: sanitizeSelect(this.iModel, parseObject(projection), privateFields?.mode),
+          populate: validatePopulatePrivateFields(this.iModel, newPop, privateFields),
+        };
+        Object.assign(details, sanitized);
+        return sanitized;
+      });
+      const userOptions = omitBy({ itemsCount, page, sort, ...selection }, isUndefined);
+      const options = makeQueryOption(userOptions, this.endpoint?.query?.options);
+      if (this.pagination) this.pagination.limit = options.limit;
+
+      logger.info("query with filter", { filter, options });
+      this.audit("allowed", { filter, options });
+      return { filter, options } as T;
+    });
+  }
 
-    const { itemsCount, page, projection, sort, populate, ..._filter } = this.filter;
+  /**
+   * @returns The cursor of the page after the documents of this page, or undefined if it is the last page or the
+   * endpoint is not in cursor mode.
+   */
+  nextCursor(docs: any[]): string | undefined {
+    const { pagination } = this;
+    if (!pagination?.limit || docs.length < pagination.limit) return undefined;
+    return encodeCursor(this.path, pagination.sort, docs[docs.length - 1], this.cursorOptions());
+  }
 
-    const defaultFilter = this.endpoint?.query?.default ? this.setCurrentUser(this.endpoint?.query?.default) : undefined;
+  private cursorOptions(): CursorOptions | undefined {
+    const cursor = this.endpoint?.query?.cursor;
+    return cursor ? (cursor === true ? {} : cursor) : undefined;
+  }
+
+  /**
+   * Limits the page size to the endpoint's maxItems, defaulting to its defaultItems. Without any limit the size of
+   * the client is used as it is.
+   */
+  private pageSize(itemsCount: any) {
+    const { maxItems, defaultItems } = this.endpoint?.query || {};
+    if (maxItems === undefined && defaultItems === undefined) return itemsCount;
+
+    const requested = Number(itemsCount);
+    let limit = itemsCount !== undefined && requested > 0 ? requested : defaultItems;
+    if (maxItems !== undefined) limit = Math.min(limit ?? maxItems, maxItems);
+    this.trace.push({ step: "limitPageSize", input: { itemsCount }, passed: true, details: { maxItems, defaultItems, limit } });
+    return limit;
+  }
 
-    const filter = makeQuery(_filter, defaultFilter as any, this.endpoint?.query?.merge, this.endpoint?.query?.isPrior);
-    let pop = parseObject(populate);
-    let newPop: any[] | undefined = undefined;
-    if (!isEmpty(pop)) {
-      newPop = [];
-      if (!Array.isArray(pop)) pop = [pop];
-      for (let p of pop) {
-        newPop.push(parseObject(p));
+  /**
+   * Splits the page of the query from its filter. In cursor mode the page number is ignored, the cursor of the client
+   * gives the sort and the position to continue from and the first page is sorted by the sort of the client.
+   */
+  private paginate(query: Record<string, any>): {
+    filter: Record<string, any>;
+    itemsCount?: any;
+    page?: any;
+    sort?: any;
+    after?: Cursor;
+  } {
+    const { itemsCount, page, sort, ...filter } = query;
+    this.traceStep("checkPage", { itemsCount, page }, () => {
+      for (const [name, value] of Object.entries({ itemsCount, page })) {
+        if (value !== undefined && !(Number.isInteger(Number(value)) && Number(value) > 0))
+          throw new QueryRestrictedError(`The ${name} must be a positive integer.`, name);
       }
-    }
-    const userOptions = omitBy(
-      { itemsCount, page, projection, sort, populate: validatePopulatePrivateFields(this.iModel, newPop) },
-      isUndefined
+    });
+    const limit = this.pageSize(itemsCount);
+    const options = this.cursorOptions();
+    if (!options) return { filter, itemsCount: limit, page, sort };
+
+    const { cursor, ...rest } = filter;
+    const paged = this.traceStep("checkCursor", { cursor, sort }, (details) => {
+      const after = cursor ? decodeCursor(this.path, cursor) : undefined;
+      const keys = after?.sort ?? normalizeSort(parseObject(sort), options);
+      details.sort = keys;
+      this.pagination = { sort: keys };
+      return { filter: rest, itemsCount: limit, sort: toMongoSort(keys), after };
+    });
+    // a dry run continues without the cursor if it is invalid
+    return paged ?? { filter: rest, itemsCount: limit };
+  }
+
+  /**
+   * Removes or masks the fields of the returned documents with the response policy of the endpoint. It accepts a
+   * document or a list of documents; plain documents are changed in place.
+   */
+  sanitize<T>(result: T): T {
+    const policy = this.endpoint?.response;
+    if (!policy) return result;
+
+    const base = this.baseAction || this.endpoint?.baseAction!;
+    const canRead = (field: string, value: any) =>
+      this.hasAction(constructAction(base, this.prefix, keyPathToAction(field)), value);
+    const sanitized = this.traceStep("sanitizeResponse", { policy }, (details) =>
+      filterResponse(result, policy, { userType: this.user?.type, canRead }, details)
     );
-    const options = makeQueryOption(userOptions, this.endpoint?.query?.options);
+    return sanitized ?? result;
+  }
 
-    logger.info("query with filter", { filter, options });
-    return { filter, options } as T;
+  protected auditData() {
+    return { filter: this.filter };
   }
 }
 
@@ -0,0 +1,75 @@
+import type { IP, UserDocument } from "../types/user.types";
+import type { FilterQuery, QueryOptions, UpdateQuery } from "mongoose";
+import NodeCache from "node-cache";
+import type { ChainOptions } from "./ChainTrace";
+import { BaseChain, type Chain, type ChainResult } from "./chain";
+import { combineFilters } from "./condition.util";
+import type { KeyMatcher } from "./path.util";
+import { deletedFilter, getSoftDelete, restoreUpdate } from "./softDelete.util";
+import { logger, makeQuery } from "../context/ChannelContext";
+
+export type RestoreChainResult<I> = ChainResult<I> & {
+  filter: FilterQuery<I>;
+  update: UpdateQuery<I>;
+  options: QueryOptions<I>;
+};
+
+/**
+ * Restores soft deleted documents. It checks the Restore<Model> action, e.g. RestorePost, and the query options
+ * of its endpoint like a DeleteChain, and returns the update that clears the deleted fields of the matched documents.
+ */
+export default class RestoreChain<I> extends BaseChain {
+  protected hookFields = ["filter"];
+
+  constructor(
+    iModel: Function,
+    private filter: FilterQuery<I>,
+    user: UserDocument,
+    path: string,
+    baseAction?: string,
+    cache?: NodeCache,
+    ip?: IP,
+    chainOptions?: ChainOptions
+  ) {
+    super(iModel, user, path, "Restore", baseAction, cache, ip, chainOptions, { filter });
+  }
+
+  checkIfKeysExist(deniedKeys?: string[], prefixAction?: string | undefined): Chain {
+    return this._checkIfKeysExist(this.filter, deniedKeys, prefixAction);
+  }
+  checkIfKeysValueExist(record: KeyMatcher, prefixAction?: string | undefined): Chain {
+    return this._checkIfKeysValueExist(this.filter, record, prefixAction);
+  }
+
+  protected async prePerform(): Promise<void> {
+    await super.prePerform();
+
+    this.checkFilter(this.filter);
+  }
+
+  async perform<T = RestoreChainResult<I>>(options?: QueryOptions): Promise<T> {
+    return await this.lifecycle(async () => {
+      await this.validate();
+
+      // the restore endpoint may not be the one deleting, so the default fields are used without soft delete options
+      const softDelete = getSoftDelete(this.iModel, this.endpoint?.softDelete) || getSoftDelete(undefined, true)!;
+      const filter = combineFilters(
+        this.scopeTenant(
+          this.scopeConditions(
+            makeQuery(this.filter, this.defaultFilter() as any, this.endpoint?.query?.merge, this.endpoint?.query?.isPrior)
+          )
+        ),
+        deletedFilter(softDelete)
+      );
+      const update = restoreUpdate(softDelete);
+
+      logger.info("Running Restore Operation", { filter, update });
+      this.audit("allowed", { filter, update, options });
+      return { filter, update, options } as T;
+    });
+  }
+
+  protected auditData() {
+    return { filter: this.filter };
+  }
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { configureChannel, resetChannel } from "../context/ChannelContext";
+import { ErrorCode } from "../errors/messages";
+import { MemoryStorageProvider } from "../storage/StorageProvider";
+import { aLevel, aUser, anEndpoint, expectChain } from "../testing";
+import Channel from "./Channel";
+
+class Post {}
+
+const level = aLevel()
+  .allow("UpdatePost")
+  .endpoint(
+    "posts.update",
+    anEndpoint("Post").body({
+      uploads: [
+        { field: "cover", directory: "covers" },
+        { field: "photos", directory: "photos" },
+      ],
+    })
+  );
+
+function updatePost(update: any) {
+  return Channel.fromRequest(
+    { method: "PUT", params: { _id: "1" }, body: update, user: aUser().level(level).build(), endpointKey: "posts.update" },
+    Post
+  );
+}
+
+describe("UpdateChain", () => {
+  let storage: MemoryStorageProvider;
+
+  beforeEach(() => {
+    storage = new MemoryStorageProvider();
+    storage.put("tmp/cover.png", "cover", "image/png");
+    storage.put("tmp/photo.png", "photo", "image/png");
+    storage.put("users/42/contract.pdf", "contract", "application/pdf");
+    configureChannel({ storage });
+  });
+  afterEach(() => resetChannel());
+
+  it("moves the uploads of plain fields and of operators", async () => {
+    const { update }: any = await updatePost({
+      $set: { cover: "tmp/cover.png" },
+      $push: { photos: { $each: ["tmp/photo.png"] } },
+    }).perform();
+    expect(update).toEqual({
+      $set: { cover: "memory://covers/cover.png" },
+      $push: { photos: { $each: ["memory://photos/photo.png"] } },
+    });
+    expect(storage.stat("covers/cover.png")).toBeDefined();
+    expect(storage.stat("photos/photo.png")).toBeDefined();
+  });
+
+  it("checks the uploads under an operator", async () => {
+    await expectChain(updatePost({ $set: { cover: "users/42/contract.pdf" } }))
+      .toDeny()
+      .withStatus(422)
+      .withCode(ErrorCode.UploadRejected);
+    expect(storage.stat("users/42/contract.pdf")).toBeDefined();
+  });
+});
+
+describe("UpdateChain key checks", () => {
+  const user = (body: Record<string, any>) =>
+    ({
+      _id: "42",
+      type: "User",
+      level: { actions: ["UpdatePost"], access: { endpoints: { posts: { update: { baseAction: "Post", body } } } } },
+    }) as any;
+
+  it("keeps the operators without a value when the values are checked", async () => {
+    const result: any = await new Channel<any>()
+      .start(Post, user({ deniedKeysValue: { status: "hidden" } }), "posts.update")
+      .Update({ _id: "1" }, { $inc: { views: 1 }, $set: { status: "hidden" } })
+      .perform();
+    expect(result.update).toEqual({ $inc: { views: 1 } });
+  });
+
+  it("strips the denied keys of the array items addressed by index or positional operator", async () => {
+    const update = (body: Record<string, any>) =>
+      new Channel<any>()
+        .start(Post, user({ useDefaultSchema: false, deniedKeys: ["items[].price"] }), "posts.update")
+        .Update({ _id: "1" }, body)
+        .perform();
+    for (const path of ["items.0.price", "items.$.price", "items.$[].price", "items.$[item].price"]) {
+      const result: any = await update({ $set: { [path]: 0, "items.0.name": "a" } });
+      expect(result.update).toEqual({ $set: { "items.0.name": "a" } });
+    }
+    const result: any = await update({ $set: { "items.0.price": 1, "items.$.price": 2, "items.$[].name": "b" } });
+    expect(result.update).toEqual({ $set: { "items.$[].name": "b" } });
+  });
+});
@@ -1,91 +1,155 @@
-import ajv from "@libs/ajv/ajv";
-import { StatusError } from "@libs/errors/StatusError";
-import { logger } from "@libs/logger";
-import { moveFieldsFile } from "@libs/s3/s3.util";
-import { KeyValue } from "@libs/security/action";
-import { makeQuery } from "@libs/utility";
-import { Uploads } from "@models/user-level.model";
-import { IP, UserDocument } from "@models/user.model";
-import { isEmpty, merge, uniqBy } from "lodash-es";
-import { FilterQuery, UpdateQuery } from "mongoose";
+import type { IP, UserDocument } from "../types/user.types";
+import { cloneDeep, get, has, isEmpty, isObjectLike, merge, set, sortBy, uniqBy, unset } from "lodash-es";
+import type { FilterQuery, UpdateQuery } from "mongoose";
 import NodeCache from "node-cache";
-import { BaseChain, Chain, ChainResult } from "./chain";
+import { OperatorDeniedError, SchemaViolationError } from "../errors/ProblemError";
+import type { ChainOptions } from "./ChainTrace";
+import type { KeyMatcher } from "./path.util";
+import { BaseChain, type AuditData, type Chain, type ChainResult } from "./chain";
+import {
+  type UpdateEffect,
+  getEffectValue,
+  isPositional,
+  normalizeUpdate,
+  removeUpdateEffect,
+  setEffectValue,
+  validateUpdateSchema,
+} from "./update.util";
+import { compileSchema } from "../schema/SchemaRegistry";
+import { logger, makeQuery } from "../context/ChannelContext";
+import type { UploadPolicy } from "../storage/upload.util";
 
 export type UpdateChainResult<I> = ChainResult<I> & {
   filter: FilterQuery<I>;
   update: UpdateQuery<I>;
 };
 
+/**
+ * The path of an update field in the document the key checks see. A positional operator becomes a new item at the
+ * end of its array, e.g. `items.$.price` is `items.1.price` when `items.0` is already written.
+ */
+function viewPath(view: Record<string, any>, path: string) {
+  const segments: string[] = [];
+  for (const segment of path.split(".")) {
+    if (!isPositional(segment)) segments.push(segment);
+    else {
+      const items = get(view, segments);
+      segments.push(String(Array.isArray(items) ? items.length : 0));
+    }
+  }
+  return segments;
+}
+
 export default class UpdateChain<I> extends BaseChain {
+  protected hookFields = ["filter", "update"];
+
   constructor(
     iModel: Function,
-    private filter: FilterQuery<I>,
-    private update: UpdateQuery<I>,
+    protected filter: FilterQuery<I>,
+    protected update: UpdateQuery<I>,
     user: UserDocument,
     path: string,
     baseAction?: string,
     cache?: NodeCache,
-    ip?: IP
+    ip?: IP,
+    chainOptions?: ChainOptions,
+    requestData: AuditData = { filter, update }
   ) {
-    super(iModel, user, path, "Update", baseAction, cache, ip);
+    super(iModel, user, path, "Update", baseAction, cache, ip, chainOptions, requestData);
   }
   async perform<T = UpdateChainResult<I>>(): Promise<T> {
-    await this.prePerform();
+    return await this.lifecycle(async () => {
+      await this.validate();
+      const { filter, update, options } = await this.prepareUpdate();
+      logger.info("Running Update Operation", { filter, update });
+      this.audit("allowed", { filter, update, options });
+      return {
+        filter,
+        update,
+        options,
+      } as T;
+    });
+  }
 
-    let tempUploads: Uploads[] = [];
+  /**
+   * Resolves the templates of the update, checks and moves its uploaded files and merges the filter with the default filter
+   * of the endpoint and the conditions of the action. Soft deleted documents and other tenants are excluded, and the protected fields are
+   * removed from the update.
+   */
+  protected async prepareUpdate() {
+    for (const field of this.protectedFields()) {
+      for (const effect of normalizeUpdate(this.update)) {
+        if (effect.path === field || effect.path.startsWith(`${field}.`)) removeUpdateEffect(this.update, effect);
+        // a parent object written as a whole can't carry the field either
+        else if (field.startsWith(`${effect.path}.`) && isObjectLike(getEffectValue(effect)))
+          unset(getEffectValue(effect), field.slice(effect.path.length + 1));
+      }
+    }
+
+    let tempUploads: UploadPolicy[] = [];
 
     const uploadFile = (key: string, value: any) => {
-      if (key.endsWith("_file_url") && typeof value === "string") {
-        tempUploads.push({
-          field: key,
-          acl: "authenticated-read",
-          directory: `users/${this.user._id?.toString()}/${this.baseAction}`,
-        });
-      }
+      if (key.endsWith("_file_url") && typeof value === "string") tempUploads.push(this.fileUpload(key));
     };
 
-    const body = this.setCurrentUser(this.update, uploadFile);
-
-    let files = {};
+    const body = this.resolveClientTemplates(this.update, uploadFile);
 
     let uploads = this.endpoint?.body?.uploads || [];
 
     uploads = uploads.map((u) => ({
       ...u,
-      directory: u.directory
-        .replaceAll("*current_user*", this.user?._id!.toString())
-        ?.replaceAll("*current_model*", this.filter?._id),
+      directory: this.resolveTemplates(u.directory, { stringify: true }, this.filter?._id),
     }));
 
     tempUploads.unshift(...uploads);
-    tempUploads = uniqBy(tempUploads, "field");
-
-    if (!isEmpty(tempUploads)) {
-      files = await moveFieldsFile(tempUploads, this.update);
+    tempUploads = uniqBy(tempUploads, "field").map((u) => ({ ...u, directory: this.uploadDirectory(u.directory) }));
+
+    // the uploads are looked up in the fields the update writes, so a field under $set or $push is moved like a plain one
+    const effects = normalizeUpdate(body).filter((effect) => getEffectValue(effect) !== undefined);
+    const fields: Record<string, any> = {};
+    for (const effect of effects) set(fields, effect.path, getEffectValue(effect));
+    const files = await this.moveUploads(tempUploads, fields);
+    if (!isEmpty(files)) {
+      merge(fields, files);
+      for (const effect of effects) setEffectValue(body, effect, get(fields, effect.path));
     }
 
-    const defaultFilter = this.endpoint?.query?.default ? this.setCurrentUser(this.endpoint?.query?.default) : undefined;
-
-    const filter = makeQuery(this.filter, defaultFilter as any, this.endpoint?.query?.merge, this.endpoint?.query?.isPrior);
-
-    const update = merge({}, body, files);
-    logger.info("Running Update Operation", { filter, update });
+    const filter = this.scopeTenant(
+      this.excludeDeleted(
+        this.scopeConditions(
+          makeQuery(this.filter, this.defaultFilter() as any, this.endpoint?.query?.merge, this.endpoint?.query?.isPrior)
+        )
+      )
+    );
+
+    const update: UpdateQuery<I> = body;
+    const options = this.endpoint?.query?.options || { new: true };
+    return { filter, update, options };
+  }
 
-    return {
-      filter,
-      update,
-      options: this.endpoint?.query?.options || { new: true },
-    } as T;
+  protected auditData() {
+    return { filter: this.filter, update: this.update };
   }
 
   protected async prePerform(): Promise<void> {
     await super.prePerform();
+    this.checkUpdate();
+  }
 
+  /**
+   * Runs the checks of the endpoint on the filter and the update: the denied keys, the query policy, the operators
+   * and the schemas.
+   */
+  protected checkUpdate() {
     if (this.endpoint?.query?.deniedKeys) this._checkIfKeysExist(this.filter, this.endpoint.query.deniedKeys, undefined, true);
 
     if (this.endpoint?.query?.deniedKeysValue)
       this._checkIfKeysValueExist(this.filter, this.endpoint.query.deniedKeysValue as any, undefined, true);
 
+    this.checkQueryPolicy(this.filter);
+
+    if (this.endpoint?.body?.operators) this.checkOperators(this.endpoint.body.operators);
+
     if (this.endpoint?.body?.deniedKeys) this.checkIfKeysExist(this.endpoint.body.deniedKeys, undefined, true);
 
     if (this.endpoint?.body?.deniedKeysValue)
@@ -93,34 +157,78 @@ export default class UpdateChain<I> extends BaseChain {
 
     if (this.endpoint?.query?.schemas && !isEmpty(this.filter)) {
       // this validate filter against the defined schema
-      const validate = ajv.compile(this.endpoint.query.schemas);
-      const valid = validate(this.filter);
-      if (!valid)
-        throw new StatusError(
-          403,
-          this.endpoint.query.errorTitle || "Restricted Query",
-          this.endpoint.query.errorMessage || "The query you provided is not allowed by the system."
-        );
+      const query = this.endpoint.query;
+      this.traceStep("validateQuerySchema", this.filter, (details) => {
+        const validate = compileSchema(query.schemas);
+        const valid = validate(this.filter);
+        details.errors = validate.errors;
+        if (!valid)
+          throw new SchemaViolationError("query", validate.errors, { title: query.errorTitle, detail: query.errorMessage });
+      });
     }
 
     if (this.endpoint?.body?.schemas && !isEmpty(this.update)) {
       // this validate filter against the defined schema
-      const validate = ajv.compile(this.endpoint?.body.schemas);
-      const valid = validate(this.update);
-      if (!valid)
-        throw new StatusError(
-          403,
-          this.endpoint.query?.errorTitle || "Restricted Body",
-          this.endpoint.query?.errorMessage || "The body you provided is not allowed by the system.",
-          validate.errors
-        );
+      const endpoint = this.endpoint;
+      this.traceStep("validateBodySchema", this.update, (details) => {
+        const { isValid, errors } = validateUpdateSchema(this.update, endpoint.body!.schemas);
+        details.errors = errors;
+        if (!isValid)
+          throw new SchemaViolationError("body", errors, {
+            title: endpoint.query?.errorTitle,
+            detail: endpoint.query?.errorMessage,
+          });
+      });
+    }
+  }
+
+  /**
+   * Rejects the update operators the endpoint doesn't allow. Plain fields count as `$set`.
+   */
+  private checkOperators(allowed: string[]) {
+    this.traceStep("checkUpdateOperators", { allowed }, (details) => {
+      const operators = [...new Set(normalizeUpdate(this.update).map((effect) => effect.operator))];
+      details.operators = operators;
+      const denied = operators.filter((operator) => !allowed.includes(operator));
+      if (denied.length) throw new OperatorDeniedError(denied);
+    });
+  }
+
+  /**
+   * Runs a key check against every field the update affects, whether it is a plain field or the payload of an
+   * operator like `$set`, `$push` or `$rename`. The check sees a document built from the affected paths; each
+   * effect whose path it deletes is removed from the update and each value it changes is written back. A positional
+   * operator, `$`, `$[]` or `$[<identifier>]`, is an item of the array in the document, so the `[]` paths match it.
+   * @param withValue Whether the check compares values, operators that don't write a value are skipped then.
+   */
+  private checkUpdatePaths(check: (view: Record<string, any>) => Chain, withValue: boolean): Chain {
+    const effects = normalizeUpdate(this.update);
+    const view: Record<string, any> = {};
+    const viewPaths = new Map<UpdateEffect, string[]>();
+    // the indexed paths come first, so the items of the positional operators never take their place
+    for (const effect of sortBy(effects, (effect) => effect.path.split(".").some(isPositional))) {
+      const value = getEffectValue(effect);
+      if (withValue && value === undefined) continue;
+      const path = viewPath(view, effect.path);
+      viewPaths.set(effect, path);
+      if (has(view, path)) continue;
+      // only the presence of the field matters for the operators that don't write a value
+      set(view, path, value === undefined ? true : cloneDeep(value));
+    }
+
+    check(view);
+
+    for (const [effect, path] of viewPaths) {
+      if (!has(view, path)) removeUpdateEffect(this.update, effect);
+      else if (getEffectValue(effect) !== undefined) setEffectValue(this.update, effect, get(view, path));
     }
+    return this;
   }
 
   checkIfKeysExist(keys: string[], prefixAction?: string | undefined, shouldDelete: boolean = false): Chain {
-    return this._checkIfKeysExist(this.update, keys, prefixAction, shouldDelete);
+    return this.checkUpdatePaths((view) => this._checkIfKeysExist(view, keys, prefixAction, shouldDelete), false);
   }
-  checkIfKeysValueExist(record: KeyValue, prefixAction?: string | undefined, shouldDelete: boolean = false): Chain {
-    return this._checkIfKeysValueExist(this.update, record, prefixAction, shouldDelete);
+  checkIfKeysValueExist(record: KeyMatcher, prefixAction?: string | undefined, shouldDelete: boolean = false): Chain {
+    return this.checkUpdatePaths((view) => this._checkIfKeysValueExist(view, record, prefixAction, shouldDelete), true);
   }
 }
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "bun:test";
+import { BodyInvalidError } from "../../errors/ProblemError";
+import { expressAdapter } from "./express";
+import { fetchAdapter } from "./fetch";
+import { type HonoContextLike, honoAdapter } from "./hono";
+
+function post(body: string, headers: Record<string, string> = {}) {
+  return new Request("http://localhost/posts/create", {
+    method: "POST",
+    body,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+describe("request adapters", () => {
+  it("converts the route path into an endpoint key", async () => {
+    const request = await fetchAdapter().toRequest({ request: post('{"title":"a"}') });
+    expect(request.endpointKey).toBe("posts.create");
+    expect(request.body).toEqual({ title: "a" });
+
+    const express = await expressAdapter().toRequest({ method: "GET", baseUrl: "/api", route: { path: "/posts/read" } });
+    expect(express.endpointKey).toBe("api.posts.read");
+  });
+
+  it("rejects a malformed JSON body", async () => {
+    const request = fetchAdapter().toRequest({ request: post("{title") });
+    await expect(request).rejects.toBeInstanceOf(BodyInvalidError);
+    await expect(request).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("only trusts the X-Forwarded-For header behind a proxy", async () => {
+    const ctx = { request: post("", { "x-forwarded-for": "1.1.1.1, 10.0.0.1" }), ip: "10.0.0.1" };
+    expect((await fetchAdapter().toRequest(ctx)).ip?.address).toBe("10.0.0.1");
+    expect((await fetchAdapter({ trustProxy: true }).toRequest(ctx)).ip?.address).toBe("10.0.0.1");
+    expect((await fetchAdapter({ trustProxy: 2 }).toRequest(ctx)).ip?.address).toBe("1.1.1.1");
+
+    const spoofed = { request: post("", { "x-forwarded-for": "6.6.6.6, 1.1.1.1" }), ip: "10.0.0.1" };
+    expect((await fetchAdapter({ trustProxy: true }).toRequest(spoofed)).ip?.address).toBe("1.1.1.1");
+
+    const c: HonoContextLike = {
+      req: {
+        method: "GET",
+        raw: new Request("http://localhost/posts", { headers: { "x-forwarded-for": "1.1.1.1" } }),
+        path: "/posts",
+        query: () => ({}),
+        param: () => ({}),
+        header: (name) => (name === "x-forwarded-for" ? "1.1.1.1" : undefined),
+      },
+      get: () => undefined,
+    };
+    expect((await honoAdapter().toRequest(c)).ip).toBeUndefined();
+    expect((await honoAdapter({ getIp: () => "10.0.0.1" }).toRequest(c)).ip?.address).toBe("10.0.0.1");
+  });
+});
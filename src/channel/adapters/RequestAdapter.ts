@@ -0,0 +1,76 @@
+import type { IP, UserDocument } from "../../types/user.types";
+import type { MaybePromise } from "../../types/util.types";
+import NodeCache from "node-cache";
+
+/**
+ * Everything a chain needs from a request, independent of the framework that received it.
+ */
+export type ChainRequest<I = any> = {
+  /** The HTTP method, e.g. GET or PATCH. */
+  method: string;
+  body?: I;
+  query?: Record<string, any>;
+  params?: Record<string, any>;
+  ip?: IP;
+  user?: UserDocument;
+  /** The path of the endpoint in the user level, e.g. posts.create. */
+  endpointKey: string;
+  cache?: NodeCache;
+  baseAction?: string;
+};
+
+/**
+ * Extracts a `ChainRequest` from the request context of a framework.
+ */
+export interface RequestAdapter<C> {
+  toRequest(ctx: C): MaybePromise<ChainRequest>;
+}
+
+/**
+ * The values most frameworks don't provide by themselves, each adapter falls back to its framework's convention.
+ */
+export type AdapterOptions<C> = {
+  getUser?: (ctx: C) => MaybePromise<UserDocument | undefined>;
+  getEndpointKey?: (ctx: C) => string;
+  getBaseAction?: (ctx: C) => string | undefined;
+  /** The remote address of the request, for the adapters whose framework doesn't provide it. */
+  getIp?: (ctx: C) => string | undefined;
+  /**
+   * Reads the ip from the X-Forwarded-For header. Only enable it behind a proxy that sets the header, otherwise any
+   * client can choose its ip and escape the rate limits. `true` trusts the one proxy in front of the app, a number
+   * is the count of proxies in front of it.
+   */
+  trustProxy?: boolean | number;
+  cache?: NodeCache;
+};
+
+export function toIP(address?: string | null): IP | undefined {
+  return address ? ({ address } as IP) : undefined;
+}
+
+/**
+ * The client of the X-Forwarded-For header if the proxy is trusted, otherwise the remote address. Each proxy appends
+ * the address it received the request from, so the client is read from the right, after the trusted proxies, and
+ * the entries a client sent itself on the left are ignored.
+ */
+export function clientIP(remote: string | undefined, forwardedFor: string | null | undefined, trustProxy?: boolean | number) {
+  const hops = trustProxy === true ? 1 : Number(trustProxy) || 0;
+  const entries = forwardedFor?.split(",").map((entry) => entry.trim()) ?? [];
+  const forwarded = hops && entries.length ? entries[Math.max(entries.length - hops, 0)] : undefined;
+  return toIP(forwarded || remote);
+}
+
+/**
+ * Converts the route path a framework matched into a key of the endpoints of a level, e.g. /posts/create becomes
+ * posts.create.
+ */
+export function toEndpointKey(path: string) {
+  return path.split("/").filter(Boolean).join(".");
+}
+
+/**
+ * Uses a `ChainRequest` as it is, e.g. in tests or when the request is built by hand.
+ */
+export const plainAdapter: RequestAdapter<ChainRequest> = {
+  toRequest: (ctx) => ctx,
+};
@@ -0,0 +1,37 @@
+import type NodeCache from "node-cache";
+import type { IP, UserDocument } from "../../types/user.types";
+import type { ChainRequest, RequestAdapter } from "./RequestAdapter";
+
+/**
+ * The Elysia context of LaunchingMax, after its plugins resolved the user, the endpoint key and the cache.
+ */
+export type LaunchingMaxContext<I> = {
+  request: Request;
+  body: I;
+  query: Record<string, any>;
+  params: Record<string, any>;
+  ip?: IP;
+  user?: UserDocument;
+  endpointKey: string;
+  store?: { cache?: NodeCache };
+  baseAction?: string;
+};
+
+/**
+ * Reads the request from the Elysia context of LaunchingMax, which already resolves the user, the endpoint key and the cache.
+ */
+export const elysiaAdapter = {
+  toRequest(ctx: LaunchingMaxContext<any>): ChainRequest {
+    return {
+      method: ctx.request.method,
+      body: ctx.body,
+      query: ctx.query,
+      params: ctx.params,
+      ip: ctx.ip,
+      user: ctx.user,
+      endpointKey: ctx.endpointKey,
+      cache: ctx.store?.cache,
+      baseAction: ctx.baseAction,
+    };
+  },
+} satisfies RequestAdapter<LaunchingMaxContext<any>>;
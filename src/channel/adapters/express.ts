@@ -0,0 +1,38 @@
+import { type AdapterOptions, type ChainRequest, type RequestAdapter, toEndpointKey, toIP } from "./RequestAdapter";
+
+/**
+ * The parts of an Express request the adapter reads. The body must be parsed by a body parser middleware.
+ */
+export type ExpressRequestLike = {
+  method: string;
+  body?: any;
+  query?: Record<string, any>;
+  params?: Record<string, any>;
+  ip?: string;
+  user?: any;
+  path?: string;
+  baseUrl?: string;
+  route?: { path?: string };
+};
+
+/**
+ * The user is read from `req.user` (e.g. set by passport) and the endpoint key from the route path, unless configured.
+ * The ip is `req.ip`, which follows the `trust proxy` setting of Express.
+ */
+export function expressAdapter(options?: AdapterOptions<ExpressRequestLike>): RequestAdapter<ExpressRequestLike> {
+  return {
+    async toRequest(req): Promise<ChainRequest> {
+      return {
+        method: req.method,
+        body: req.body,
+        query: req.query,
+        params: req.params,
+        ip: toIP(options?.getIp?.(req) ?? req.ip),
+        user: options?.getUser ? await options.getUser(req) : req.user,
+        endpointKey: options?.getEndpointKey?.(req) ?? toEndpointKey(`${req.baseUrl || ""}${req.route?.path ?? req.path ?? ""}`),
+        cache: options?.cache,
+        baseAction: options?.getBaseAction?.(req),
+      };
+    },
+  };
+}
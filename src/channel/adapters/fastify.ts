@@ -0,0 +1,36 @@
+import { type AdapterOptions, type ChainRequest, type RequestAdapter, toEndpointKey, toIP } from "./RequestAdapter";
+
+/**
+ * The parts of a Fastify request the adapter reads.
+ */
+export type FastifyRequestLike = {
+  method: string;
+  body?: any;
+  query?: any;
+  params?: any;
+  ip?: string;
+  user?: any;
+  url: string;
+  routeOptions?: { url?: string };
+};
+
+/**
+ * The user is read from `request.user` (e.g. set by @fastify/jwt) and the endpoint key from the route url, unless configured.
+ */
+export function fastifyAdapter(options?: AdapterOptions<FastifyRequestLike>): RequestAdapter<FastifyRequestLike> {
+  return {
+    async toRequest(request): Promise<ChainRequest> {
+      return {
+        method: request.method,
+        body: request.body,
+        query: request.query,
+        params: request.params,
+        ip: toIP(options?.getIp?.(request) ?? request.ip),
+        user: options?.getUser ? await options.getUser(request) : request.user,
+        endpointKey: options?.getEndpointKey?.(request) ?? toEndpointKey(request.routeOptions?.url ?? request.url.split("?")[0]),
+        cache: options?.cache,
+        baseAction: options?.getBaseAction?.(request),
+      };
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { BodyInvalidError } from "../../errors/ProblemError";
+import { type AdapterOptions, type ChainRequest, type RequestAdapter, clientIP, toEndpointKey } from "./RequestAdapter";
+
+export type FetchContext = {
+  request: Request;
+  /** The route params, the Fetch API has no router so they must be passed in. */
+  params?: Record<string, any>;
+  /** The remote address, e.g. from `server.requestIP(request)` in Bun. */
+  ip?: string;
+};
+
+const BODY_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+/**
+ * Reads the body of a request as JSON or form data. An empty body is undefined.
+ * @throws {BodyInvalidError} If the body is not valid JSON.
+ */
+export async function readBody(request: Request): Promise<any> {
+  if (!BODY_METHODS.includes(request.method.toUpperCase()) || !request.body) return undefined;
+  const type = request.headers.get("content-type") || "";
+  if (type.includes("application/x-www-form-urlencoded") || type.includes("multipart/form-data")) {
+    const data: Record<string, any> = {};
+    (await request.formData()).forEach((value, key) => (data[key] = value));
+    return data;
+  }
+  const text = await request.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BodyInvalidError("The body of the request is not valid JSON.");
+  }
+}
+
+/**
+ * Adapts a plain Fetch API `Request`. The user must be resolved by `getUser`, the endpoint key defaults to the url path
+ * and the ip to the one of the context, or of the X-Forwarded-For header with `trustProxy`.
+ */
+export function fetchAdapter(options?: AdapterOptions<FetchContext>): RequestAdapter<FetchContext> {
+  return {
+    async toRequest(ctx): Promise<ChainRequest> {
+      const url = new URL(ctx.request.url);
+      return {
+        method: ctx.request.method,
+        body: await readBody(ctx.request.clone()),
+        query: Object.fromEntries(url.searchParams.entries()),
+        params: ctx.params,
+        ip: clientIP(options?.getIp?.(ctx) ?? ctx.ip, ctx.request.headers.get("x-forwarded-for"), options?.trustProxy),
+        user: await options?.getUser?.(ctx),
+        endpointKey: options?.getEndpointKey?.(ctx) ?? toEndpointKey(url.pathname),
+        cache: options?.cache,
+        baseAction: options?.getBaseAction?.(ctx),
+      };
+    },
+  };
+}
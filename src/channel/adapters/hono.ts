@@ -0,0 +1,41 @@
+import { type AdapterOptions, type ChainRequest, type RequestAdapter, clientIP, toEndpointKey } from "./RequestAdapter";
+import { readBody } from "./fetch";
+
+/**
+ * The parts of a Hono context the adapter reads.
+ */
+export type HonoContextLike = {
+  req: {
+    method: string;
+    raw: Request;
+    routePath?: string;
+    path: string;
+    query(): Record<string, string>;
+    param(): Record<string, string>;
+    header(name: string): string | undefined;
+  };
+  get(key: string): any;
+};
+
+/**
+ * The user is read from `c.get("user")` and the endpoint key from the route path, unless configured. Hono doesn't
+ * expose the remote address on every runtime, so the ip comes from `getIp`, e.g. with `getConnInfo`, or from the
+ * X-Forwarded-For header with `trustProxy`.
+ */
+export function honoAdapter(options?: AdapterOptions<HonoContextLike>): RequestAdapter<HonoContextLike> {
+  return {
+    async toRequest(c): Promise<ChainRequest> {
+      return {
+        method: c.req.method,
+        body: await readBody(c.req.raw.clone()),
+        query: c.req.query(),
+        params: c.req.param(),
+        ip: clientIP(options?.getIp?.(c), c.req.header("x-forwarded-for"), options?.trustProxy),
+        user: options?.getUser ? await options.getUser(c) : c.get("user"),
+        endpointKey: options?.getEndpointKey?.(c) ?? toEndpointKey(c.req.routePath ?? c.req.path),
+        cache: options?.cache,
+        baseAction: options?.getBaseAction?.(c),
+      };
+    },
+  };
+}
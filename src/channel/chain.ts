@@ -1,15 +1,49 @@
-import { UserType } from "@libs/constants/user.const";
-import { StatusError } from "@libs/errors/StatusError";
-
-import { Storage } from "@libs/s3/s3.util";
-import { KeyValue, constructAction, validateAction } from "@libs/security/action";
-import { extractPath } from "@libs/storage.util";
-import { EndpointSchema, IUserLevel, Uploads } from "@models/user-level.model";
-import { IP, UserDocument } from "@models/user.model";
-import { MaybePromise } from "elysia";
-import { capitalize, cloneDeepWith, get, isEmpty } from "lodash-es";
-import { FilterQuery, QueryOptions } from "mongoose";
+import type { IUserLevel } from "../types/level.types";
+import type { IP, UserDocument, UserType } from "../types/user.types";
+import type { MaybePromise } from "../types/util.types";
+import { cloneDeep, get, has, isEmpty, isUndefined, omitBy, pick, set } from "lodash-es";
+import type { FilterQuery, QueryOptions } from "mongoose";
 import NodeCache from "node-cache";
+import {
+  type RateLimitAlgorithm,
+  type RateLimitInfo,
+  type RateLimitKey,
+  RateLimiter,
+  buildRateLimitKey,
+  getRateLimitStore,
+} from "../rate-limit/RateLimiter";
+import type { AuditEvent, AuditOutcome } from "../audit/AuditSink";
+import {
+  AccountDeniedError,
+  ActionDeniedError,
+  BatchRejectedError,
+  BatchTooLargeError,
+  HookRejectedError,
+  KeyDeniedError,
+  PredicateFailedError,
+  type ProblemDetails,
+  ProblemError,
+  RateLimitedError,
+  SchemaViolationError,
+  TenantRequiredError,
+  UnauthenticatedError,
+  toProblemDetails,
+} from "../errors/ProblemError";
+import { emitAuditEvent } from "../audit/audit.util";
+import { constructAction, getChannelContext, isActionAllowed, logger, moveFieldsFile } from "../context/ChannelContext";
+import type { HookContext } from "../hooks/ChainHook";
+import { getHooks } from "../hooks/hooks.util";
+import { type MovedUpload, type UploadPolicy, checkUpload, moveUploads, rollbackUploads } from "../storage/upload.util";
+import { levelResolver } from "../level/LevelResolver";
+import type { ChainOptions, ChainTrace, TraceStep } from "./ChainTrace";
+import { validateDataSchema } from "./DataValidationSchema";
+import type { EndpointPolicy } from "./endpoint.types";
+import { validateQueryPolicy } from "./QueryFirewall";
+import { type TemplateOptions, resolveClientTemplates, resolveTemplates } from "./template.util";
+import { type ConditionNode, combineFilters, compileConditions, parseActionConditions } from "./condition.util";
+import { getSoftDelete, notDeletedFilter } from "./softDelete.util";
+import { type TenantOptions, getTenantOptions, tenantDirectory } from "./tenant.util";
+import { type KeyMatcher, deleteKeyPaths, findKeyPaths, keyPathToAction, matchValue } from "./path.util";
 
 export interface Chain {
   /**
@@ -35,8 +69,9 @@ export interface Chain {
   predicate(callback?: () => MaybePromise<boolean>, msg?: string): Chain;
 
   /**
-   * Checks if any specified keys exist on the provided body.
-   * @param keys list of keys to check in request body.
+   * Checks if any specified keys exist on the provided body. A key exists if it is set to anything but undefined.
+   * @param keys list of keys to check in request body. Each key is a path expression like `profile.email`,
+   * `items[].price` or `settings.*.visibility`.
    * @param prefixAction An optional prefix for action e.g. Change
    * @returns Chain to let you call other methods.
    */
@@ -44,11 +79,12 @@ export interface Chain {
 
   /**
    * Checks if the provided request body has the record.
-   * @param record The record [key: value] to check in body.
+   * @param record The record [key: value] to check in body. Keys are path expressions and values are either the
+   * denied value, a list of denied values or a condition like `{ $regex }`, `{ $gte, $lte }`, `{ $in }` or `{ $type }`.
    * @param prefixAction An optional prefix for action.
    * @returns Chain to let you call other methods.
    */
-  checkIfKeysValueExist(record?: KeyValue, prefixAction?: string, shouldDelete?: boolean): Chain;
+  checkIfKeysValueExist(record?: KeyMatcher, prefixAction?: string, shouldDelete?: boolean): Chain;
 
   /**
    * This method specify whether visitor user can visit this endpoint.
@@ -60,31 +96,71 @@ export interface Chain {
   checkIfUserIs(users: UserType[]): Chain;
 
   /**
-   *
+   * Counts the request against the rate limit of the endpoint. The result is awaited in `perform`,
+   * which throws a 429 StatusError if the quota is exceeded.
    * @param windows  Time window for rate limiting in seconds
    * @param max Maximum number of requests allowed per time window
+   * @param algorithm The counting algorithm, defaults to fixed-window.
+   * @param keyBy What the requests are counted by, defaults to endpoint and ip.
    */
-  checkRateLimit(windows: number, max: number): Chain;
+  checkRateLimit(windows: number, max: number, algorithm?: RateLimitAlgorithm, keyBy?: RateLimitKey | RateLimitKey[]): Chain;
 
-  postPerform(callback: () => MaybePromise<any>);
+  /**
+   * The remaining quota and reset time of the last rate limit check, available after `perform` is called
+   * (even if it throws) to let the HTTP layer set the `RateLimit-*` and `Retry-After` headers.
+   */
+  rateLimitInfo?: RateLimitInfo;
+
+  /**
+   * Runs the callback, e.g. the database write of the result. If it throws, the uploaded files moved by the chain
+   * are rolled back before the error is rethrown.
+   */
+  postPerform(callback: () => MaybePromise<any>): Promise<any>;
+
+  /**
+   * Moves the uploaded files moved by `perform` back to their temporary key or deletes them, as configured by their
+   * upload. Only files moved by the storage provider of the channel context are rolled back.
+   */
+  rollback(): Promise<void>;
 
   /**
    * This is the last method called in the Chain.
    */
   perform<T>(): Promise<ChainResult<T>>;
-}
 
-type Retry = {
-  count: number;
-  retry: number;
-};
+  /**
+   * Runs `perform` in dry-run mode and returns every step the chain took instead of throwing.
+   * Checks done in the constructor are only included without throwing when the chain was created with `dryRun`.
+   */
+  explain(): Promise<ChainTrace>;
+}
 
 export abstract class BaseChain implements Chain {
   callback?: MaybePromise<boolean>;
   callbackMsg?: string;
 
-  endpoint?: EndpointSchema;
+  endpoint?: EndpointPolicy;
   actions: string[];
+  /** The conditions of the conditional actions of the user level. */
+  conditions: Record<string, ConditionNode[]>;
+
+  rateLimitInfo?: RateLimitInfo;
+  private rateLimit?: Promise<RateLimitInfo>;
+
+  trace: TraceStep[] = [];
+  protected dryRun: boolean;
+  protected params?: Record<string, any>;
+  /** The index of the item a bulk chain is checking. */
+  protected currentItem?: number;
+  /** The tenant of the request, only set if the chains are scoped to tenants. */
+  tenant?: any;
+  protected tenancy?: Required<TenantOptions>;
+  /** Whether the user holds the CrossTenant<Model> action, which lifts the tenant scope. */
+  protected crossTenant = false;
+  /** The uploaded files moved by the chain, until they are rolled back. */
+  protected movedFiles: MovedUpload[] = [];
+  /** The fields of the chain the hooks receive as their data, e.g. doc or filter and update. */
+  protected hookFields: string[] = [];
 
   constructor(
     protected iModel: Function,
@@ -93,17 +169,26 @@ export abstract class BaseChain implements Chain {
     protected prefix?: string,
     protected baseAction?: string,
     protected cache?: NodeCache,
-    protected ip?: IP
+    protected ip?: IP,
+    options?: ChainOptions,
+    private requestData?: AuditData
   ) {
-    const level = this.user?.level as IUserLevel;
+    this.dryRun = !!options?.dryRun;
+    this.params = options?.params;
+    const level = levelResolver.resolve(this.user?.level as IUserLevel);
 
-    this.endpoint = get(level?.access?.endpoints, path);
+    // the chains keep the defaults of the request on the endpoint, so they get their own copy of the cached policy
+    this.endpoint = cloneDeep(get(level?.access?.endpoints, path)) as EndpointPolicy | undefined;
 
     logger.log("info", { path, user: user?.type });
-    this.actions = level?.actions || [];
+    ({ actions: this.actions, conditions: this.conditions } = parseActionConditions(level?.actions || []));
+
+    this.tenancy = this.endpoint?.tenant === false ? undefined : getTenantOptions();
+    if (this.tenancy) this.tenant = this.tenancy.resolve({ user, ip, params: this.params });
 
-    if (cache && ip && this.endpoint?.rateLimit) {
-      this.checkRateLimit(this.endpoint.rateLimit.ttl, this.endpoint.rateLimit.max);
+    if (this.endpoint?.rateLimit) {
+      const { ttl, max, algorithm, keyBy } = this.endpoint.rateLimit;
+      this.checkRateLimit(ttl, max, algorithm, keyBy);
     }
 
     if (!this.endpoint?.canVisitorVisit) {
@@ -117,6 +202,8 @@ export abstract class BaseChain implements Chain {
     if (!isEmpty(this.endpoint?.allowedUsers)) {
       this.checkIfUserIs(this.endpoint?.allowedUsers!);
     }
+
+    if (this.tenancy) this.checkTenant();
   }
 
   predicate(callback?: () => MaybePromise<boolean>, msg?: string): Chain {
@@ -128,163 +215,639 @@ export abstract class BaseChain implements Chain {
   }
 
   checkAction(baseAction?: string): Chain {
-    const base = baseAction || this.baseAction || this.endpoint?.baseAction;
-    this.baseAction = this.baseAction || base;
+    this.traceStep("checkAction", { baseAction }, (details) => {
+      const base = baseAction || this.baseAction || this.endpoint?.baseAction;
+      this.baseAction = this.baseAction || base;
 
-    if (!base) throw new Error("You have not set a base action to check.");
+      if (!base) throw new Error("You have not set a base action to check.");
 
-    const action = constructAction(base, this.prefix);
-    validateAction(action, this.actions);
+      const action = constructAction(base, this.prefix);
+      details.requiredAction = action;
+      this.validateAction(action, () => new ActionDeniedError(action));
+      if (this.conditions[action]) details.conditions = compileConditions(this.conditions[action]);
+    });
     return this;
   }
 
   checkUser(currentUserType: UserType, allowedUsers: UserType[]): Chain {
-    if (!allowedUsers.includes(currentUserType))
-      throw new StatusError(403, "Invalid Account", "Sorry, your account is not able to perform this action.");
+    this.traceStep("checkUser", { currentUserType, allowedUsers }, () => {
+      if (!allowedUsers.includes(currentUserType)) throw new AccountDeniedError(currentUserType);
+    });
     return this;
   }
 
   protected async prePerform() {
+    if (this.rateLimit) {
+      await this.traceStepAsync("checkRateLimit", undefined, async (details) => {
+        this.rateLimitInfo = await this.rateLimit!;
+        Object.assign(details, this.rateLimitInfo);
+        if (!this.rateLimitInfo.allowed) throw new RateLimitedError(this.rateLimitInfo);
+      });
+    }
+
+    await this.runValidationHooks("beforeValidate");
+
     if (this.callback !== undefined) {
-      const result = this.callback instanceof Promise ? await this.callback : this.callback;
-      if (!result)
-        throw new StatusError(
-          403,
-          "Predicate Not Succeeded",
-          this.callbackMsg || "You are not allowed to process further, because the provided predicate mismatches."
-        );
+      await this.traceStepAsync("predicate", undefined, async (details) => {
+        const result = this.callback instanceof Promise ? await this.callback : this.callback;
+        details.result = result;
+        if (!result) throw new PredicateFailedError(this.callbackMsg);
+      });
+    }
+  }
+
+  /**
+   * Runs the checks of the chain, then the afterValidate hooks.
+   */
+  protected async validate() {
+    await this.prePerform();
+    await this.runValidationHooks("afterValidate");
+  }
+
+  protected hookContext(): HookContext {
+    return {
+      path: this.path,
+      user: this.user,
+      endpoint: this.endpoint,
+      baseAction: this.baseAction || this.endpoint?.baseAction,
+      action: this.resolvedAction(),
+      params: this.params,
+      dryRun: this.dryRun,
+      data: pick(this, this.hookFields),
+    };
+  }
+
+  /**
+   * Runs the registered hooks of a validation phase. The data they change is written back to the chain.
+   * @throws {HookRejectedError} If a hook returns false.
+   */
+  protected async runValidationHooks(phase: "beforeValidate" | "afterValidate") {
+    const handlers = getHooks(phase, this.path, this.baseAction || this.endpoint?.baseAction);
+    if (!handlers.length) return;
+
+    const ctx = this.hookContext();
+    await this.traceStepAsync(`${phase}Hooks`, { hooks: handlers.length }, async () => {
+      for (const handler of handlers) if ((await handler(ctx)) === false) throw new HookRejectedError(phase);
+    });
+    Object.assign(this, pick(ctx.data, this.hookFields));
+  }
+
+  /**
+   * Runs the body of `perform` and passes its result through the transformResult hooks. If it throws, the moved
+   * files are rolled back and the onError hooks can return a result instead of the error.
+   */
+  protected async lifecycle<T>(perform: () => Promise<T>): Promise<T> {
+    const base = this.baseAction || this.endpoint?.baseAction;
+    try {
+      let result = await perform();
+      for (const handler of getHooks("transformResult", this.path, base)) {
+        const transformed = await handler({ ...this.hookContext(), result });
+        if (transformed !== undefined) result = transformed;
+      }
+      return result;
+    } catch (error) {
+      await this.rollback();
+      const ctx = { ...this.hookContext(), error };
+      for (const handler of getHooks("onError", this.path, base)) {
+        const recovered = await handler(ctx);
+        if (recovered !== undefined) return recovered;
+      }
+      throw error;
     }
   }
 
+  /**
+   * Validates the action against the actions of the user level and converts a denial into a typed error.
+   * @param denied Creates the error thrown when the action is denied.
+   * @param value The value passed to the action validation.
+   */
+  protected validateAction(action: string, denied: () => ProblemError, value?: any) {
+    if (!this.hasAction(action, value)) throw denied();
+  }
+
+  /**
+   * @returns Whether the actions of the user level allow the action. Only the action of the chain is granted under
+   * its conditions, which filter the documents; the conditions of the other actions, e.g. ChangePostTitle or
+   * CrossTenantPost, can't be enforced, so their conditional grants are ignored.
+   */
+  protected hasAction(action: string, value?: any): boolean {
+    if (this.conditions[action] && action !== this.resolvedAction()) return false;
+    return isActionAllowed(action, this.actions, value);
+  }
+
+  /**
+   * @returns The action of the chain, e.g. CreatePost, or undefined if there is no base action.
+   */
+  protected resolvedAction() {
+    const base = this.baseAction || this.endpoint?.baseAction;
+    return base ? constructAction(base, this.prefix) : undefined;
+  }
+
+  /**
+   * The data the chain works on, added to the audit events of denied requests.
+   */
+  protected auditData(): AuditData {
+    return {};
+  }
+
+  /**
+   * The data of a denied request. The checks of the constructor run before the subclass assigns its data, so the
+   * data passed to the constructor fills in what `auditData` doesn't have yet.
+   */
+  private deniedData(): AuditData {
+    return { ...this.requestData, ...omitBy(this.auditData(), isUndefined) };
+  }
+
+  /**
+   * Emits an audit event for a decision of the chain. Nothing is emitted in dry-run mode.
+   * @param data The filter, update, doc and options the decision is about.
+   * @param step The check that denied the request.
+   * @param error The error the check threw.
+   */
+  protected audit(outcome: AuditOutcome, data?: Partial<AuditEvent>, step?: string, error?: any) {
+    if (this.dryRun) return;
+    emitAuditEvent(
+      {
+        timestamp: new Date().toISOString(),
+        user: { _id: this.user?._id?.toString(), type: this.user?.type },
+        action: this.resolvedAction(),
+        path: this.path,
+        ip: this.ip?.address,
+        outcome,
+        step,
+        status: error?.status,
+        reason: error?.message,
+        ...data,
+      },
+      this.endpoint?.audit
+    );
+  }
+
+  /**
+   * The filter compiled from the conditions of the action of the chain, undefined if the action is unconditional.
+   */
+  protected conditionFilter(): Record<string, any> | undefined {
+    const action = this.resolvedAction();
+    const conditions = action ? this.conditions[action] : undefined;
+    return conditions ? this.resolveTemplates(compileConditions(conditions)) : undefined;
+  }
+
+  /**
+   * The default filter of the endpoint, passed to `makeQuery`.
+   */
+  protected defaultFilter(): Record<string, any> | undefined {
+    return this.endpoint?.query?.default ? this.resolveTemplates(this.endpoint.query.default) : undefined;
+  }
+
+  /**
+   * Constrains the filter to the conditions of the action. Like the tenant, the conditions are added after the client
+   * filter is merged, so the merge and isPrior options of the endpoint can't let the client override them.
+   */
+  protected scopeConditions<F>(filter: F): F {
+    return combineFilters(filter as Record<string, any>, this.conditionFilter()) as F;
+  }
+
+  /**
+   * Adds the not-deleted clause to the filter if the model uses soft deletes, unless the user holds the
+   * IncludeDeleted<Model> action, e.g. IncludeDeletedPost.
+   */
+  protected excludeDeleted<F>(filter: F): F {
+    const softDelete = getSoftDelete(this.iModel, this.endpoint?.softDelete);
+    if (!softDelete) return filter;
+    const base = this.baseAction || this.endpoint?.baseAction;
+    if (base && this.hasAction(constructAction(base, "IncludeDeleted"))) return filter;
+    return combineFilters(filter as Record<string, any>, notDeletedFilter(softDelete)) as F;
+  }
+
+  /**
+   * Requires a tenant, unless the user holds the CrossTenant<Model> action, e.g. CrossTenantPost.
+   */
+  private checkTenant() {
+    this.traceStep("checkTenant", { tenant: this.tenant }, (details) => {
+      const base = this.baseAction || this.endpoint?.baseAction;
+      this.crossTenant = !!base && this.hasAction(constructAction(base, "CrossTenant"));
+      details.crossTenant = this.crossTenant;
+      if (this.tenant == null && !this.crossTenant) throw new TenantRequiredError();
+    });
+  }
+
+  /**
+   * Constrains the filter to the tenant of the request. The constraint is added after the client filter is merged,
+   * so the client can't override it.
+   */
+  protected scopeTenant<F>(filter: F): F {
+    if (!this.tenancy || this.crossTenant) return filter;
+    return combineFilters(filter as Record<string, any>, { [this.tenancy.field]: this.tenant }) as F;
+  }
+
+  /**
+   * Sets the tenant of a created document. A user with the CrossTenant<Model> action can set another tenant.
+   */
+  protected stampTenant<T>(doc: T): T {
+    if (!this.tenancy || this.tenant == null) return doc;
+    if (this.crossTenant && has(doc, this.tenancy.field)) return doc;
+    return set(doc as object, this.tenancy.field, this.tenant) as T;
+  }
+
+  /**
+   * The fields a client can't write: the fields of the soft deletes, which only change by a delete or a restore, and
+   * the tenant, unless the user holds the CrossTenant<Model> action.
+   */
+  protected protectedFields(): string[] {
+    const fields: string[] = [];
+    const softDelete = getSoftDelete(this.iModel, this.endpoint?.softDelete);
+    if (softDelete) fields.push(softDelete.field, softDelete.byField);
+    if (this.tenancy && !this.crossTenant) fields.push(this.tenancy.field);
+    return fields;
+  }
+
+  /**
+   * Prefixes an upload directory with the tenant of the request.
+   */
+  protected uploadDirectory(directory: string) {
+    return this.tenancy && this.tenant != null ? tenantDirectory(directory, this.tenant) : directory;
+  }
+
+  /**
+   * The upload of a field detected by its `_file_url` suffix, with the ACL and constraints of the endpoint.
+   */
+  protected fileUpload(field: string): UploadPolicy {
+    return {
+      acl: "authenticated-read",
+      ...this.endpoint?.body?.fileUploads,
+      field,
+      directory: `users/${this.user._id?.toString()}/${this.baseAction}`,
+    };
+  }
+
+  /**
+   * Checks the uploaded files of the data against the constraints of their uploads and moves them with the storage
+   * provider of the channel context, or with its `moveFieldsFile` if there is none. Nothing is moved in dry-run mode.
+   * @returns The new values of the moved fields.
+   */
+  protected async moveUploads(uploads: UploadPolicy[], data: any): Promise<Record<string, any>> {
+    if (isEmpty(uploads)) return {};
+    const { storage } = getChannelContext();
+    await this.traceStepAsync("validateUploads", uploads, async () => {
+      for (const upload of uploads) await checkUpload(storage, upload, get(data, upload.field));
+    });
+
+    if (this.dryRun) {
+      this.trace.push({ step: "uploads", input: uploads, passed: true, details: { skipped: true } });
+      return {};
+    }
+    if (!storage) return await moveFieldsFile(uploads, data);
+
+    const { files, moved } = await moveUploads(storage, uploads, data);
+    this.movedFiles.push(...moved);
+    return files;
+  }
+
+  async rollback() {
+    await this.rollbackFiles(0);
+  }
+
+  /**
+   * Rolls back the files moved after the first `from` ones, e.g. the files of a rejected item of a bulk chain.
+   */
+  protected async rollbackFiles(from: number) {
+    const moved = this.movedFiles.splice(from);
+    const { storage } = getChannelContext();
+    if (storage && moved.length) await rollbackUploads(storage, moved);
+  }
+
+  /**
+   * Runs a step after files may have been moved and rolls them back if it throws.
+   */
+  protected async compensate<T>(step: () => Promise<T>): Promise<T> {
+    try {
+      return await step();
+    } catch (error) {
+      await this.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Walks the whole filter and checks it against the query policy of the endpoint.
+   * @throws {StatusError} If the filter uses a forbidden operator, is nested too deep or queries a denied path.
+   */
+  protected checkQueryPolicy(filter: any) {
+    this.traceStep("checkQueryPolicy", filter, () => validateQueryPolicy(filter, this.endpoint?.query?.policy));
+  }
+
+  /**
+   * Runs the checks of the endpoint on the filter of a delete or a restore: the denied keys, the query policy and the
+   * schema. The keys are checked by `checkIfKeysExist` and `checkIfKeysValueExist`, which must read the same filter.
+   */
+  protected checkFilter(filter: any) {
+    if (this.endpoint?.query?.deniedKeys) this.checkIfKeysExist(this.endpoint.query.deniedKeys);
+
+    if (this.endpoint?.query?.deniedKeysValue) this.checkIfKeysValueExist(this.endpoint.query.deniedKeysValue);
+
+    this.checkQueryPolicy(filter);
+
+    if (this.endpoint?.query?.schemas) {
+      // this validate filter against the defined schema
+      const query = this.endpoint.query;
+      this.traceStep("validateQuerySchema", filter, (details) => {
+        const { defaultValue, errors, isValid, branch } = validateDataSchema(filter, query.schemas, query.default);
+        Object.assign(details, { branch, default: defaultValue, errors });
+
+        if (!isValid) throw new SchemaViolationError("query", errors);
+        set(query, "default", defaultValue);
+      });
+    }
+  }
+
+  /**
+   * Runs a check and records it in the trace. In dry-run mode a failing check doesn't throw.
+   * @param step Name of the check.
+   * @param input The values the check receives.
+   * @param check The check. It can add what it decided to the details object.
+   */
+  protected traceStep<T>(step: string, input: any, check: (details: Record<string, any>) => T): T | undefined {
+    const details: Record<string, any> = {};
+    try {
+      const result = check(details);
+      this.trace.push({ step, input, passed: true, details });
+      return result;
+    } catch (error) {
+      this.trace.push({ step, input, passed: false, details, error });
+      if (!this.dryRun) {
+        this.audit("denied", this.deniedData(), step, error);
+        throw error;
+      }
+    }
+  }
+
+  protected async traceStepAsync<T>(
+    step: string,
+    input: any,
+    check: (details: Record<string, any>) => Promise<T>
+  ): Promise<T | undefined> {
+    const details: Record<string, any> = {};
+    try {
+      const result = await check(details);
+      this.trace.push({ step, input, passed: true, details });
+      return result;
+    } catch (error) {
+      this.trace.push({ step, input, passed: false, details, error });
+      if (!this.dryRun) {
+        this.audit("denied", this.deniedData(), step, error);
+        throw error;
+      }
+    }
+  }
+
+  async explain(): Promise<ChainTrace> {
+    this.dryRun = true;
+    let result: any;
+    try {
+      result = await this.perform();
+    } catch (error) {
+      this.trace.push({ step: "perform", passed: false, details: {}, error });
+    }
+
+    return {
+      path: this.path,
+      user: { _id: this.user?._id?.toString(), type: this.user?.type },
+      action: this.resolvedAction(),
+      passed: this.trace.every((step) => step.passed),
+      steps: this.trace,
+      result,
+    };
+  }
+
   _checkIfKeysExist(obj?: Record<string, any>, keys?: string[], prefixAction?: string, shouldDelete: boolean = false): Chain {
     if (!obj || !keys) return this;
 
-    for (const key of keys) {
-      if (obj[key]) {
+    this.traceStep("checkIfKeysExist", { keys, prefixAction, shouldDelete }, (details) => {
+      details.deletedKeys = [];
+      details.requiredActions = [];
+      for (const key of keys) {
+        const matches = findKeyPaths(obj, key);
+        if (!matches.length) continue;
         if (shouldDelete) {
-          delete obj[key];
+          deleteKeyPaths(matches);
+          details.deletedKeys.push(...matches.map((match) => match.path));
           continue;
         }
         const action = constructAction(
           this.baseAction || this.endpoint?.baseAction!,
           this.prefix,
-          capitalize(key),
+          keyPathToAction(key),
           prefixAction
         ).trim();
-        validateAction(action, this.actions, obj[key]);
+        details.requiredActions.push(action);
+        for (const match of matches) this.validateAction(action, () => new KeyDeniedError(match.path, action), match.value);
       }
-    }
+    });
 
     return this;
   }
 
   _checkIfKeysValueExist(
     obj?: Record<string, any>,
-    record?: KeyValue,
+    record?: KeyMatcher,
     prefixAction?: string,
     shouldDelete: boolean = false
   ): Chain {
     if (!obj || !record) return this;
 
-    for (const key of Object.keys(record)) {
-      if (obj[key]) {
-        const match =
-          typeof record[key] === "string"
-            ? obj[key] === record[key]
-            : (record[key] as string[]).some((value) => value === obj[key]);
-        if (match) {
-          if (shouldDelete) {
-            delete obj[key];
-            continue;
-          }
-          const action = constructAction(
-            this.baseAction || this.endpoint?.baseAction!,
-            this.prefix,
-            capitalize(key),
-            prefixAction
-          );
-          validateAction(action, this.actions, obj[key]);
+    this.traceStep("checkIfKeysValueExist", { record, prefixAction, shouldDelete }, (details) => {
+      details.deletedKeys = [];
+      details.requiredActions = [];
+      for (const key of Object.keys(record)) {
+        const matches = findKeyPaths(obj, key).filter((match) => matchValue(match.value, record[key]));
+        if (!matches.length) continue;
+        if (shouldDelete) {
+          deleteKeyPaths(matches);
+          details.deletedKeys.push(...matches.map((match) => match.path));
+          continue;
         }
+        const action = constructAction(
+          this.baseAction || this.endpoint?.baseAction!,
+          this.prefix,
+          keyPathToAction(key),
+          prefixAction
+        );
+        details.requiredActions.push(action);
+        for (const match of matches) this.validateAction(action, () => new KeyDeniedError(match.path, action), match.value);
       }
-    }
+    });
     return this;
   }
 
   checkIfUserIs(users: UserType[]): Chain {
-    if (!users.includes(this.user!.type!))
-      throw new StatusError(403, "Invalid Account", "Sorry, your account is not able to perform this action.");
+    this.traceStep("checkIfUserIs", { users, userType: this.user?.type }, () => {
+      if (!users.includes(this.user!.type!)) throw new AccountDeniedError(this.user?.type);
+    });
     return this;
   }
 
   visitorVisit(canVisit: boolean): Chain {
-    if (!canVisit && this.user.type === UserType.Visitor)
-      throw new StatusError(401, "Unauthorized", "You need to login to access this service.");
+    this.traceStep("visitorVisit", { canVisit, userType: this.user?.type }, () => {
+      if (!canVisit && getChannelContext().isVisitor(this.user)) throw new UnauthenticatedError();
+    });
     return this;
   }
 
-  checkRateLimit(windows: number, max: number): Chain {
-    if (!this.ip || !this.cache) return this;
-
-    const key = `${this.path}-${this.ip?.address}`;
-
-    const retryKey = key + "-retry";
-    if (this.cache.has(key)) {
-      const count = this.cache.get<number>(key)!;
-      if (count === 0) {
-        if (this.cache.has(retryKey)) {
-          const retry = this.cache.get<Retry>(retryKey)!;
-          if (retry.count === 0) {
-            retry.retry += 1;
-            retry.count = 2 * max - 1;
-            this.cache.set(retryKey, retry, windows);
-            this.cache.set(key, 0, windows * retry.retry);
-          } else {
-            retry.count -= 1;
-            this.cache.set(retryKey, retry, windows);
-          }
-        } else {
-          // user has tried suspiciously
-          const retry: Retry = { retry: 1, count: max * 2 - 1 };
-          this.cache.set(retryKey, retry, windows);
-        }
-
-        throw new StatusError(429, "Too Many Request", "You have exceeded the the number of request at this endpoint.");
-      }
-
-      const ttl = this.cache.getTtl(key)!;
-      const newTtl = (ttl - Date.now()) / 1000;
-      this.cache.set(key, count - 1, newTtl);
-    } else {
-      this.cache.has(retryKey) && this.cache.del(retryKey);
-      this.cache.set(key, max - 1, windows);
+  checkRateLimit(
+    windows: number,
+    max: number,
+    algorithm?: RateLimitAlgorithm,
+    keyBy: RateLimitKey | RateLimitKey[] = ["endpoint", "ip"]
+  ): Chain {
+    const store = getRateLimitStore(this.cache);
+    if (!store) return this;
+
+    const base = this.endpoint?.baseAction || this.baseAction;
+    let key = buildRateLimitKey(keyBy, {
+      path: this.path,
+      ip: this.ip,
+      user: this.user,
+      action: base ? constructAction(base, this.prefix) : undefined,
+    });
+    if (!key) return this;
+    // the tenants never share a quota
+    if (this.tenant != null) key = `${this.tenant}:${key}`;
+
+    if (this.dryRun) {
+      // a dry run must not count against the quota of the client
+      this.trace.push({
+        step: "checkRateLimit",
+        input: { windows, max, algorithm, keyBy },
+        passed: true,
+        details: { key, skipped: true },
+      });
+      return this;
     }
+
+    this.rateLimit = new RateLimiter(store, algorithm).consume(key, windows, max);
+    // the result is checked in prePerform, this only prevents an unhandled rejection if perform is never called
+    this.rateLimit.catch(() => undefined);
     return this;
   }
 
-  protected setCurrentUser(data: any, callback?: (key: string, value: any) => void, stringify = false) {
-    return cloneDeepWith(data, (value, key) => {
-      callback && key && callback(key?.toString(), value);
-      if (value === "*current_user*") {
-        return stringify ? this.user?._id?.toString() : this.user?._id;
+  /**
+   * Rejects a batch with more items than the endpoint accepts.
+   */
+  protected checkBatchSize(count: number) {
+    this.traceStep("checkBatchSize", { count }, (details) => {
+      const max = this.endpoint?.bulk?.maxItems ?? DEFAULT_MAX_BULK_ITEMS;
+      details.max = max;
+      if (count > max) throw new BatchTooLargeError(count, max);
+    });
+  }
+
+  /**
+   * Runs a bulk chain item by item. The checks of the chain ran once for the whole batch, here every item is checked
+   * on its own and the trace steps of an item are marked with its index. The valid items are only prepared once the
+   * whole batch is checked, so an atomic batch has no side effects when it is rejected, and the files moved before a
+   * failing item of an atomic batch are rolled back.
+   * @param check Runs the checks of the endpoint on an item.
+   * @param prepare Builds the result of a valid item. In atomic mode its errors are thrown, otherwise they reject the item.
+   */
+  protected async performItems<T, R>(
+    items: T[],
+    check: (item: T, index: number) => void,
+    prepare: (item: T, index: number) => Promise<R>
+  ): Promise<BulkChainResult<R>> {
+    await this.prePerform();
+    const mode = this.endpoint?.bulk?.mode || "atomic";
+
+    const errors = new Map<number, any>();
+    for (const [index, item] of items.entries()) {
+      const start = this.trace.length;
+      this.currentItem = index;
+      try {
+        check(item, index);
+      } catch (error) {
+        errors.set(index, error);
+      } finally {
+        this.currentItem = undefined;
       }
+      const steps = this.trace.slice(start);
+      steps.forEach((step) => (step.item = index));
+      // in dry-run mode the failing checks don't throw
+      const failed = steps.find((step) => !step.passed);
+      if (failed && !errors.has(index)) errors.set(index, failed.error);
+    }
+
+    this.traceStep("checkBatchItems", { mode }, (details) => {
+      details.rejected = [...errors.keys()];
+      if (mode === "atomic" && errors.size)
+        throw new BatchRejectedError([...errors].map(([index, error]) => ({ index, error: toProblemDetails(error) })));
     });
+    await this.runValidationHooks("afterValidate");
+
+    const results: BulkItemResult<R>[] = [];
+    for (const [index, item] of items.entries()) {
+      if (!errors.has(index)) {
+        const moved = this.movedFiles.length;
+        try {
+          const result = await prepare(item, index);
+          this.audit("allowed", result as Partial<AuditEvent>);
+          results.push({ index, ok: true, result });
+          continue;
+        } catch (error) {
+          // an atomic batch keeps no file, a partial batch keeps the files of its accepted items
+          await this.rollbackFiles(mode === "atomic" ? 0 : moved);
+          if (mode === "atomic") throw error;
+          errors.set(index, error);
+        }
+      }
+      results.push({ index, ok: false, error: toProblemDetails(errors.get(index)) });
+    }
+
+    const accepted = results.flatMap((item) => (item.ok ? [item.result] : []));
+    return { items: results, accepted, rejected: errors.size };
+  }
+
+  /**
+   * Resolves the template variables like `*current_user*`, `*now*` or `*params.id*` in the data.
+   * @param model The id of the document the request works on, the value of `*current_model*`.
+   */
+  protected resolveTemplates<T>(data: T, options?: TemplateOptions, model?: any): T {
+    return resolveTemplates(data, { user: this.user, ip: this.ip, params: this.params, model }, options);
+  }
+
+  /**
+   * Resolves `*current_user*` in the data of the client, the other templates are only resolved in the policy.
+   */
+  protected resolveClientTemplates<T>(data: T, onValue?: TemplateOptions["onValue"]): T {
+    return resolveClientTemplates(data, { user: this.user }, onValue);
   }
 
   async postPerform(callback: () => MaybePromise<any>) {
-    const result = callback();
-    return result instanceof Promise ? await result : result;
+    return await this.compensate(async () => await callback());
   }
 
   abstract checkIfKeysExist(keys?: string[], prefixAction?: string, shouldDelete?: boolean): Chain;
-  abstract checkIfKeysValueExist(record?: KeyValue, prefixAction?: string, shouldDelete?: boolean): Chain;
+  abstract checkIfKeysValueExist(record?: KeyMatcher, prefixAction?: string, shouldDelete?: boolean): Chain;
 
   abstract perform<T>(): Promise<ChainResult<T>>;
 }
 
+export const DEFAULT_MAX_BULK_ITEMS = 1000;
+
+export type BulkItemResult<R> = { index: number; ok: true; result: R } | { index: number; ok: false; error: ProblemDetails };
+
+export type BulkChainResult<R> = {
+  /** The result or the error of every item, in the order of the batch. */
+  items: BulkItemResult<R>[];
+  accepted: R[];
+  rejected: number;
+};
+
 export type ChainResult<T> = {
   doc: T;
   options: QueryOptions;
 };
+/** The data a chain works on, as it is audited. */
+export type AuditData = Pick<AuditEvent, "filter" | "update" | "doc">;
+
 export type ReadChainResult<I> = ChainResult<I> & {
   filter: FilterQuery<I>;
 };
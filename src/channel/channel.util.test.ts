@@ -0,0 +1,71 @@
+import { describe, expect, it } from "bun:test";
+import { PrivateFieldError, QueryRestrictedError } from "../errors/ProblemError";
+import { registerPrivateFields, sanitizeSelect, validatePopulatePrivateFields } from "./channel.util";
+
+class Team {}
+class User {}
+class Article {}
+class Secret {}
+
+registerPrivateFields(Team, { fields: ["budget"] });
+registerPrivateFields(User, { fields: ["password"], refs: { team: Team } });
+registerPrivateFields(Article, { fields: [], refs: { author: User } });
+registerPrivateFields(Secret, { fields: ["value"] });
+
+describe("private fields", () => {
+  it("hides the private fields of a selection", () => {
+    expect(sanitizeSelect(User, "name password")).toBe("name");
+    expect(sanitizeSelect(User, undefined)).toBe("-password");
+    expect(() => sanitizeSelect(User, "password", "reject")).toThrow(PrivateFieldError);
+  });
+
+  it("checks the populated models", () => {
+    const populate = [{ path: "author", select: "name password", populate: { path: "team", match: { budget: 1, name: "a" } } }];
+    expect(validatePopulatePrivateFields(Article, populate)).toEqual([
+      { path: "author", select: "name", populate: [{ path: "team", match: { name: "a" }, select: "-budget" }] },
+    ]);
+    expect(() => validatePopulatePrivateFields(Article, populate, { mode: "reject" })).toThrow(PrivateFieldError);
+  });
+
+  it("checks the nested operators of a match and the sort of a populate", () => {
+    const populate = [
+      {
+        path: "team",
+        match: { $or: [{ budget: { $gt: 100 } }, { name: "a" }], members: { $elemMatch: { budget: 1 } }, name: { $ne: "b" } },
+        options: { sort: { budget: 1, name: -1 }, limit: 5 },
+      },
+    ];
+    expect(validatePopulatePrivateFields(User, populate)).toEqual([
+      {
+        path: "team",
+        match: { members: { $elemMatch: { budget: 1 } }, name: { $ne: "b" } },
+        options: { sort: { name: -1 }, limit: 5 },
+        select: "-budget",
+      },
+    ]);
+    expect(() =>
+      validatePopulatePrivateFields(User, [{ path: "team", match: { $nor: [{ $and: [{ budget: 1 }] }] } }], { mode: "reject" })
+    ).toThrow(PrivateFieldError);
+    expect(() =>
+      validatePopulatePrivateFields(User, [{ path: "team", options: { sort: "-budget" } }], { mode: "reject" })
+    ).toThrow(PrivateFieldError);
+  });
+
+  it("ignores the model chosen by the client", () => {
+    const populate = [{ path: "author", model: Secret, select: "name password" }];
+    expect(validatePopulatePrivateFields(Article, populate)).toEqual([{ path: "author", select: "name" }]);
+    expect(() => validatePopulatePrivateFields(Article, populate, { mode: "reject" })).toThrow(QueryRestrictedError);
+  });
+
+  it("denies the paths without a registered reference", () => {
+    expect(validatePopulatePrivateFields(Article, ["author", "reviewer"])).toEqual([{ path: "author", select: "-password" }]);
+    expect(() => validatePopulatePrivateFields(Article, ["reviewer"], { mode: "reject" })).toThrow(QueryRestrictedError);
+  });
+
+  it("limits the depth of the populate", () => {
+    const populate = [{ path: "author", populate: "team" }];
+    expect(() => validatePopulatePrivateFields(Article, populate, { maxDepth: 1 })).toThrow(QueryRestrictedError);
+    expect(validatePopulatePrivateFields(Article, ["author"], { maxDepth: 1 })).toHaveLength(1);
+    expect(() => validatePopulatePrivateFields(Article, ["author"], { maxDepth: 0 })).toThrow(QueryRestrictedError);
+  });
+});
@@ -1,5 +1,191 @@
-export function validatePopulatePrivateFields(model: Function, populate?: any[]) {
+import { isPlainObject } from "lodash-es";
+import { PrivateFieldError, QueryRestrictedError } from "../errors/ProblemError";
+import { getEntity } from "../context/ChannelContext";
+
+export type PrivateFieldsMode = "reject" | "strip";
+
+export type PrivateFieldsOptions = {
+  /** Either reject the request or silently remove the entries that touch private fields. Defaults to strip. */
+  mode?: PrivateFieldsMode;
+  /**
+   * Maximum depth of nested populate, 1 only populates the paths of the model itself and 0 rejects any populate.
+   * Defaults to 3.
+   */
+  maxDepth?: number;
+};
+
+type ModelPrivacy = {
+  /** Fields that must never be returned to the client, dot paths are allowed. */
+  fields: string[];
+  /** The referenced model of each populatable path. */
+  refs?: Record<string, Function>;
+};
+
+const registry = new Map<Function, ModelPrivacy>();
+
+/**
+ * Registers the private fields of a model and the models its paths reference. The fields are merged with the
+ * ones declared on the model by the `docs:private` metadata.
+ */
+export function registerPrivateFields(model: Function, privacy: ModelPrivacy) {
+  const current = registry.get(model);
+  registry.set(model, {
+    fields: [...(current?.fields || []), ...privacy.fields],
+    refs: { ...current?.refs, ...privacy.refs },
+  });
+}
+
+export function getPrivateFields(model?: Function): string[] {
+  if (!model) return [];
+  const declared: string[] = getEntity(model, "docs:private") || [];
+  return [...declared, ...(registry.get(model)?.fields || [])];
+}
+
+export function getReferencedModel(model: Function | undefined, path: string): Function | undefined {
+  if (!model) return undefined;
+  return registry.get(model)?.refs?.[path] || getEntity(model, "docs:refs")?.[path];
+}
+
+function touches(field: string, privateField: string) {
+  return field === privateField || field.startsWith(privateField + ".") || privateField.startsWith(field + ".");
+}
+
+function violation(mode: PrivateFieldsMode, field: string) {
+  if (mode === "reject") throw new PrivateFieldError(field);
+}
+
+function toSelectTokens(select: any): string[] {
+  if (typeof select === "string") return select.split(/\s+/).filter(Boolean);
+  if (Array.isArray(select)) return select.map(String);
+  return Object.entries(select).map(([field, include]) => (include ? field : `-${field}`));
+}
+
+/**
+ * Collects the fields a filter queries at any depth, e.g. in `$or`, `$and`, `$nor`, `$not` and `$elemMatch`.
+ * @param path The field the node is the condition of.
+ */
+function matchFields(node: any, path: string): string[] {
+  const fields = path ? [path] : [];
+  if (Array.isArray(node)) return [...fields, ...node.flatMap((item) => matchFields(item, path))];
+  if (!isPlainObject(node)) return fields;
+  for (const key of Object.keys(node)) {
+    fields.push(...matchFields(node[key], key.startsWith("$") ? path : path ? `${path}.${key}` : key));
+  }
+  return fields;
+}
+
+function toSortEntries(sort: any): [string, any][] {
+  if (typeof sort === "string")
+    return sort
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((token) => (token.startsWith("-") ? [token.slice(1), -1] : [token, 1]));
+  if (Array.isArray(sort)) return sort.map((entry) => (Array.isArray(entry) ? [String(entry[0]), entry[1]] : [String(entry), 1]));
+  return isPlainObject(sort) ? Object.entries(sort) : [];
+}
+
+/**
+ * Removes or rejects the select entries that include a private field. If the selection excludes fields
+ * (or there is no selection at all) the private fields are added to the exclusion.
+ * @returns The sanitized selection as a string or undefined if there is nothing to select or exclude.
+ */
+export function sanitizeSelect(model: Function | undefined, select: any, mode: PrivateFieldsMode = "strip") {
+  const privateFields = getPrivateFields(model);
+  if (!privateFields.length) return select;
+
+  const tokens = select ? toSelectTokens(select) : [];
+  const allowed = tokens.filter((token) => {
+    if (token.startsWith("-")) return true;
+    const field = token.replace(/^\+/, "");
+    const privateField = privateFields.find((p) => touches(field, p));
+    if (!privateField) return true;
+    violation(mode, field);
+    return false;
+  });
+
+  // mongo does not let mix inclusion and exclusion, so an inclusion already hides the private fields
+  const isInclusion = allowed.some((token) => !token.startsWith("-") && !token.startsWith("+"));
+  if (!isInclusion) {
+    for (const field of privateFields) {
+      if (!allowed.includes(`-${field}`)) allowed.push(`-${field}`);
+    }
+  }
+
+  return allowed.length ? allowed.join(" ") : undefined;
+}
+
+/**
+ * Validates the populate option of a query. It rejects a populate deeper than the max depth and removes or
+ * rejects the paths, selections, matches and sorts touching private fields of the populated models. The populated models
+ * are the registered references of the paths, so a path without one and a model chosen by the client are removed
+ * or rejected too.
+ * @param model The model the populate starts from.
+ * @param populate The populate list, each item is either a path or a populate object.
+ */
+export function validatePopulatePrivateFields(model: Function, populate?: any[], options?: PrivateFieldsOptions, depth = 1) {
   if (!populate) return populate;
 
-  return populate;
+  const mode = options?.mode || "strip";
+  const maxDepth = options?.maxDepth ?? 3;
+  if (depth > maxDepth) throw new QueryRestrictedError(`You can not populate deeper than ${maxDepth} level(s).`, "populate");
+
+  const result: any[] = [];
+  for (const item of populate) {
+    const pop = typeof item === "string" ? { path: item } : { ...item };
+    if (!pop.path) continue;
+
+    if (getPrivateFields(model).some((p) => touches(pop.path, p))) {
+      violation(mode, pop.path);
+      continue;
+    }
+
+    // the private fields of another model than the referenced one would not be checked
+    if (pop.model !== undefined) {
+      if (mode === "reject") throw new QueryRestrictedError(`The model of ${pop.path} can not be chosen.`, "populate");
+      delete pop.model;
+    }
+
+    const ref = getReferencedModel(model, pop.path);
+    if (!ref) {
+      if (mode === "reject") throw new QueryRestrictedError(`The path ${pop.path} can not be populated.`, "populate");
+      continue;
+    }
+
+    const privateFields = getPrivateFields(ref);
+    if (isPlainObject(pop.match)) {
+      pop.match = { ...pop.match };
+      // an entry filtering on a private field, even in a nested $or, could probe its values, so it goes as a whole
+      for (const key of Object.keys(pop.match)) {
+        const field = matchFields(pop.match[key], key.startsWith("$") ? "" : key).find((f) =>
+          privateFields.some((p) => touches(f, p))
+        );
+        if (!field) continue;
+        violation(mode, field);
+        delete pop.match[key];
+      }
+    }
+
+    if (pop.options?.sort) {
+      const sort = toSortEntries(pop.options.sort);
+      const allowed = sort.filter(([field]) => {
+        if (!privateFields.some((p) => touches(field, p))) return true;
+        violation(mode, field);
+        return false;
+      });
+      if (allowed.length < sort.length) pop.options = { ...pop.options, sort: Object.fromEntries(allowed) };
+    }
+
+    const select = sanitizeSelect(ref, pop.select, mode);
+    if (select === undefined) delete pop.select;
+    else pop.select = select;
+
+    if (pop.populate) {
+      const nested = Array.isArray(pop.populate) ? pop.populate : [pop.populate];
+      pop.populate = validatePopulatePrivateFields(ref, nested, options, depth + 1);
+    }
+
+    result.push(pop);
+  }
+
+  return result;
 }
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "bun:test";
+import { KeyDeniedError } from "../errors/ProblemError";
+import { validatePolicy } from "../schema/validatePolicy";
+import Channel from "./Channel";
+import { compileConditions, matchesFilter, parseActionConditions } from "./condition.util";
+import { resolveTemplates } from "./template.util";
+
+class Post {}
+
+function start(actions: string[], posts: Record<string, any>, path: string) {
+  const user: any = { _id: "42", type: "User", level: { actions, access: { endpoints: { posts } } } };
+  return new Channel<any>().start(Post, user, path);
+}
+
+describe("action conditions", () => {
+  it("parses the conditions of the actions", () => {
+    const { actions, conditions } = parseActionConditions([
+      'UpdatePost when owner == current_user or status in ["draft", "review"]',
+      "ReadPost",
+    ]);
+    expect(actions).toEqual(["UpdatePost", "ReadPost"]);
+    expect(compileConditions(conditions.UpdatePost)).toEqual({
+      $or: [{ owner: { $eq: "*current_user*" } }, { status: { $in: ["draft", "review"] } }],
+    });
+    expect(matchesFilter({ status: "draft" }, compileConditions(conditions.UpdatePost))).toBe(true);
+    expect(matchesFilter({ status: "public" }, compileConditions(conditions.UpdatePost))).toBe(false);
+  });
+
+  it("compares the dates of the conditions", () => {
+    const { conditions } = parseActionConditions(["ReadPost when publishAt <= now"]);
+    const filter = resolveTemplates(compileConditions(conditions.ReadPost), {});
+    expect(matchesFilter({ publishAt: "2020-01-01T00:00:00.000Z" }, filter)).toBe(true);
+    expect(matchesFilter({ publishAt: new Date(Date.now() + 60_000) }, filter)).toBe(false);
+    expect(matchesFilter({ publishAt: 0 }, filter)).toBe(false);
+    expect(matchesFilter({ publishAt: new Date("2020-01-02") }, { publishAt: { $gt: "2020-01-01" } })).toBe(true);
+  });
+
+  it("keeps the conditions when the client filter is prior", async () => {
+    const read = { baseAction: "Post", query: { isPrior: true, default: { status: "public" } } };
+    const { filter }: any = await start(["ReadPost when owner == current_user"], { read }, "posts.read")
+      .Read({ owner: "someone", status: "draft" })
+      .perform();
+    expect(filter).toEqual({ $and: [{ owner: "someone", status: "draft" }, { owner: { $eq: "42" } }] });
+  });
+
+  it("ignores the conditional grants of the other actions", () => {
+    const chain = start(
+      ["UpdatePost", "ChangePostTitle when owner == current_user"],
+      { update: { baseAction: "Post" } },
+      "posts.update"
+    );
+    expect(() => chain.Update({ _id: "1" }, { title: "x" }).checkIfKeysExist(["title"], "Change")).toThrow(KeyDeniedError);
+  });
+
+  it("reports the conditions of the other actions", () => {
+    const actions = ["UpdatePost when owner == current_user", "CrossTenantPost when owner == current_user"];
+    expect(validatePolicy({ actions }).map((problem) => problem.path)).toEqual(["actions[1]"]);
+    expect(validatePolicy({ actions: [...actions, "ReadPostTitle when a == 1"] }, { baseActions: ["Post"] })).toHaveLength(2);
+  });
+});
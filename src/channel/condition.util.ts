@@ -0,0 +1,190 @@
+import { get, isPlainObject } from "lodash-es";
+import { type ValueCondition, matchValue } from "./path.util";
+
+/**
+ * A parsed condition of an action, e.g. `owner == current_user or status == "draft"`.
+ */
+export type ConditionNode =
+  { and: ConditionNode[] } | { or: ConditionNode[] } | { path: string; operator: keyof typeof OPERATORS; value: any };
+
+/**
+ * The actions of a user level without their conditions, and the conditions of each action.
+ */
+export type ActionConditions = {
+  actions: string[];
+  /** The conditions of every conditional action. An action that is also granted without a condition has none. */
+  conditions: Record<string, ConditionNode[]>;
+};
+
+const OPERATORS = {
+  "==": "$eq",
+  "!=": "$ne",
+  ">": "$gt",
+  ">=": "$gte",
+  "<": "$lt",
+  "<=": "$lte",
+  in: "$in",
+} as const;
+
+const TOKEN = /\s*(\(|\)|\[|\]|,|==|!=|>=|<=|>|<|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^\s()[\],=!<>]+)/y;
+
+function tokenize(text: string) {
+  const tokens: string[] = [];
+  let end = 0;
+  let match: RegExpExecArray | null;
+  TOKEN.lastIndex = 0;
+  while ((match = TOKEN.exec(text))) {
+    tokens.push(match[1]);
+    end = TOKEN.lastIndex;
+  }
+  if (text.slice(end).trim()) throw new Error(`Unexpected "${text.slice(end).trim()}" in condition ${text}.`);
+  return tokens;
+}
+
+/**
+ * Parses a literal. Quoted strings, numbers, booleans and null are literals, any other word is a template variable,
+ * e.g. `current_user` or `params.id`, resolved when the condition is used.
+ */
+function parseValue(token: string) {
+  if (/^(["']).*\1$/.test(token)) return token.slice(1, -1).replace(/\\(.)/g, "$1");
+  if (token === "true" || token === "false") return token === "true";
+  if (token === "null") return null;
+  if (token !== "" && !isNaN(Number(token))) return Number(token);
+  return `*${token}*`;
+}
+
+/**
+ * Parses a condition. It compares fields with `==`, `!=`, `>`, `>=`, `<`, `<=` and `in [..]`, and combines the
+ * comparisons with `and`, `or` and parentheses, e.g. `owner == current_user or (status in ["draft", "review"])`.
+ * @throws {Error} If the condition is malformed.
+ */
+export function parseCondition(text: string): ConditionNode {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const fail = (expected: string): never => {
+    throw new Error(`Expected ${expected} at "${tokens[position] ?? "the end"}" in condition ${text}.`);
+  };
+  const take = (token?: string) => {
+    if (token !== undefined && tokens[position] !== token) fail(`"${token}"`);
+    return tokens[position++] ?? fail("a value");
+  };
+
+  const comparison = (): ConditionNode => {
+    if (tokens[position] === "(") {
+      take("(");
+      const node = expression();
+      take(")");
+      return node;
+    }
+    const path = take();
+    const operator = take() as keyof typeof OPERATORS;
+    if (!(operator in OPERATORS)) fail("an operator");
+    if (operator !== "in") return { path, operator, value: parseValue(take()) };
+
+    const values: any[] = [];
+    take("[");
+    while (tokens[position] !== "]") {
+      values.push(parseValue(take()));
+      if (tokens[position] !== "]") take(",");
+    }
+    take("]");
+    return { path, operator, value: values };
+  };
+
+  const conjunction = (): ConditionNode => {
+    const nodes = [comparison()];
+    while (tokens[position] === "and") {
+      position++;
+      nodes.push(comparison());
+    }
+    return nodes.length === 1 ? nodes[0] : { and: nodes };
+  };
+
+  const expression = (): ConditionNode => {
+    const nodes = [conjunction()];
+    while (tokens[position] === "or") {
+      position++;
+      nodes.push(conjunction());
+    }
+    return nodes.length === 1 ? nodes[0] : { or: nodes };
+  };
+
+  const node = expression();
+  if (position < tokens.length) fail("the end");
+  return node;
+}
+
+const parsed = new WeakMap<string[], ActionConditions>();
+
+/**
+ * Splits the actions of a user level into the action names and their conditions. A conditional action is written
+ * `<Action> when <condition>`, e.g. `UpdatePost when owner == current_user or status == "draft"`. The conditions of
+ * several entries of the same action are alternatives, an entry without condition grants the action unconditionally.
+ */
+export function parseActionConditions(entries: string[]): ActionConditions {
+  const cached = parsed.get(entries);
+  if (cached) return cached;
+
+  const actions = new Set<string>();
+  const conditions: Record<string, ConditionNode[]> = {};
+  const unconditional = new Set<string>();
+  for (const entry of entries) {
+    const [action, condition] = entry.split(/\s+when\s+(.*)/s);
+    actions.add(action.trim());
+    if (condition === undefined) unconditional.add(action.trim());
+    else (conditions[action.trim()] ??= []).push(parseCondition(condition));
+  }
+  for (const action of unconditional) delete conditions[action];
+
+  const result = { actions: [...actions], conditions };
+  parsed.set(entries, result);
+  return result;
+}
+
+/**
+ * Compiles conditions into a mongo filter matching the documents any of them allows. The template variables of the
+ * values are left as templates.
+ */
+export function compileConditions(nodes: ConditionNode[]): Record<string, any> {
+  const compile = (node: ConditionNode): Record<string, any> => {
+    if ("and" in node) return { $and: node.and.map(compile) };
+    if ("or" in node) return { $or: node.or.map(compile) };
+    return { [node.path]: { [OPERATORS[node.operator]]: node.value } };
+  };
+  return nodes.length === 1 ? compile(nodes[0]) : { $or: nodes.map(compile) };
+}
+
+/**
+ * Combines two filters, both must match. Filters without common keys are merged, so the merge and isPrior options
+ * of `makeQuery` still apply to each key, otherwise they are joined with `$and`.
+ */
+export function combineFilters(a?: Record<string, any>, b?: Record<string, any>) {
+  if (!a || !b) return a || b;
+  const common = Object.keys(a).some((key) => key in b);
+  return common ? { $and: [a, b] } : { ...a, ...b };
+}
+
+function normalize(value: any): any {
+  if (typeof value?.toHexString === "function") return value.toHexString();
+  if (Array.isArray(value)) return value.map(normalize);
+  return value;
+}
+
+/**
+ * Checks a document against a filter compiled from conditions, e.g. the doc of a CreateChain. Ids are compared by
+ * their string value.
+ */
+export function matchesFilter(doc: any, filter: Record<string, any>): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === "$and") return condition.every((f: any) => matchesFilter(doc, f));
+    if (key === "$or") return condition.some((f: any) => matchesFilter(doc, f));
+
+    const value = normalize(get(doc, key));
+    if (!isPlainObject(condition)) return matchValue(value, { $eq: normalize(condition) });
+    const { $ne, ...rest } = condition;
+    if ($ne !== undefined && !matchValue(value, { $nin: [normalize($ne)] })) return false;
+    const normalized = Object.fromEntries(Object.entries(rest).map(([op, v]) => [op, normalize(v)]));
+    return matchValue(value, normalized as ValueCondition);
+  });
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import { CursorInvalidError } from "../errors/ProblemError";
+import { aLevel, aUser, anEndpoint, expectChain } from "../testing";
+import Channel from "./Channel";
+import { cursorFilter, decodeCursor, encodeCursor, normalizeSort } from "./cursor.util";
+
+class Post {}
+
+describe("cursors", () => {
+  it("only accepts the configured sort fields", () => {
+    expect(normalizeSort("-createdAt", { sortFields: ["createdAt"] })).toEqual([
+      ["createdAt", -1],
+      ["_id", -1],
+    ]);
+    expect(normalizeSort(undefined, { sort: { createdAt: 1 } })).toEqual([
+      ["createdAt", 1],
+      ["_id", 1],
+    ]);
+    expect(() => normalizeSort("secret")).toThrow(CursorInvalidError);
+    expect(normalizeSort("_id")).toEqual([["_id", 1]]);
+  });
+
+  it("encrypts the values of the last document", () => {
+    const sort = normalizeSort("-email", { sortFields: ["email"] });
+    const cursor = encodeCursor("posts.read", sort, { _id: "1", email: "someone@example.com" });
+    expect(Buffer.from(cursor.replaceAll(".", ""), "base64url").toString("latin1")).not.toContain("someone");
+    expect(decodeCursor("posts.read", cursor)).toEqual({ sort, values: ["someone@example.com", "1"] });
+
+    const [iv, data, tag] = cursor.split(".");
+    const changed = `${iv}.${data.slice(0, -2)}${data.endsWith("A") ? "BA" : "AA"}.${tag}`;
+    expect(() => decodeCursor("posts.read", changed)).toThrow(CursorInvalidError);
+    expect(() => decodeCursor("posts.delete", cursor)).toThrow(CursorInvalidError);
+  });
+
+  it("pages past null values", () => {
+    const sort = normalizeSort("title", { sortFields: ["title"] });
+    expect(cursorFilter({ sort, values: [null, "1"] })).toEqual({
+      $or: [{ title: { $ne: null } }, { title: null, _id: { $gt: "1" } }],
+    });
+    const desc = normalizeSort("-title", { sortFields: ["title"] });
+    expect(cursorFilter({ sort: desc, values: [null, "1"] })).toEqual({ title: null, _id: { $lt: "1" } });
+    expect(cursorFilter({ sort: desc, values: ["a", "1"] })).toEqual({
+      $or: [{ $or: [{ title: { $lt: "a" } }, { title: null }] }, { title: "a", _id: { $lt: "1" } }],
+    });
+  });
+
+  it("rejects an invalid page", async () => {
+    const level = aLevel().allow("ReadPost").endpoint("posts.read", anEndpoint("Post"));
+    const read = (query: any) =>
+      Channel.fromRequest({ method: "GET", query, user: aUser().level(level).build(), endpointKey: "posts.read" }, Post);
+    for (const page of ["0", "-1", "1.5", "abc"]) await expectChain(read({ page })).toDeny().withStatus(403);
+    const { options }: any = await read({ page: "2", itemsCount: "10" }).perform();
+    expect(options).toMatchObject({ skip: 10, limit: 10 });
+  });
+});
@@ -0,0 +1,151 @@
+import { get } from "lodash-es";
+import { Types } from "mongoose";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { CursorInvalidError } from "../errors/ProblemError";
+
+export type CursorOptions = {
+  /** The sort of the first page if the client doesn't send one, defaults to `{ _id: 1 }`. */
+  sort?: Record<string, 1 | -1>;
+  /** The fields a client may sort by. Only `_id` and the fields of `sort` are accepted if not set. */
+  sortFields?: string[];
+  /** How long a cursor is valid in seconds. Cursors don't expire if not set. */
+  ttl?: number;
+};
+
+export type SortKey = [field: string, direction: 1 | -1];
+
+type CursorPayload = {
+  /** The path of the endpoint, a cursor is only valid for the endpoint that issued it. */
+  p: string;
+  s: SortKey[];
+  /** The values of the sort fields of the last document of the page. */
+  v: any[];
+  /** When the cursor expires, in milliseconds. */
+  e?: number;
+};
+
+export type Cursor = {
+  sort: SortKey[];
+  values: any[];
+};
+
+// without a configured secret the cursors are only valid on the instance that issued them
+let key: Buffer = randomBytes(32);
+
+/**
+ * Sets the secret the cursors are encrypted with. Every instance behind a load balancer must use the same one.
+ */
+export function setCursorSecret(value: string) {
+  key = createHash("sha256").update(value).digest();
+}
+
+// the cursor carries the values of the last document, so it is encrypted and not only signed, the client can't read
+// the fields it sorts by; the authentication tag of GCM detects any change of the cursor
+function encrypt(data: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([cipher.update(data, "utf8"), cipher.final()]);
+  return [iv, encrypted, cipher.getAuthTag()].map((part) => part.toString("base64url")).join(".");
+}
+
+function decrypt(cursor: string) {
+  const [iv, encrypted, tag] = cursor.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+// the values keep their type, so a date or an id is compared with a date or an id again
+function encodeValue(value: any): any {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (typeof value?.toHexString === "function") return { $oid: value.toHexString() };
+  return value ?? null;
+}
+
+function decodeValue(value: any): any {
+  if (value?.$date) return new Date(value.$date);
+  if (value?.$oid) return new Types.ObjectId(value.$oid);
+  return value;
+}
+
+/**
+ * Normalizes the sort of a client, e.g. `{ createdAt: "desc" }` or `"-createdAt title"`, and adds `_id` as the last
+ * key so every document has a distinct position.
+ * @throws {CursorInvalidError} If the sort uses a field that is not accepted.
+ */
+export function normalizeSort(sort: any, options: CursorOptions = {}): SortKey[] {
+  let keys: SortKey[];
+  if (typeof sort === "string" && sort.trim())
+    keys = sort
+      .trim()
+      .split(/\s+/)
+      .map((key) => (key.startsWith("-") ? [key.slice(1), -1] : [key, 1]));
+  else if (sort && typeof sort === "object")
+    keys = Object.entries(sort).map(([field, direction]) => [
+      field,
+      [-1, "-1", "desc", "descending"].includes(direction as any) ? -1 : 1,
+    ]);
+  else keys = Object.entries(options.sort || { _id: 1 }) as SortKey[];
+
+  const accepted = options.sortFields ?? Object.keys(options.sort || {});
+  const denied = keys.find(([field]) => field !== "_id" && !accepted.includes(field));
+  if (denied) throw new CursorInvalidError(`The sort field ${denied[0]} is not accepted`);
+  if (!keys.some(([field]) => field === "_id")) keys.push(["_id", keys[keys.length - 1]?.[1] ?? 1]);
+  return keys;
+}
+
+export function toMongoSort(sort: SortKey[]): Record<string, 1 | -1> {
+  return Object.fromEntries(sort);
+}
+
+/**
+ * Creates the encrypted cursor of the page after the document.
+ */
+export function encodeCursor(path: string, sort: SortKey[], last: any, options: CursorOptions = {}) {
+  const payload: CursorPayload = { p: path, s: sort, v: sort.map(([field]) => encodeValue(get(last, field))) };
+  if (options.ttl) payload.e = Date.now() + options.ttl * 1000;
+  return encrypt(JSON.stringify(payload));
+}
+
+/**
+ * Decrypts a cursor and reads it.
+ * @throws {CursorInvalidError} If the cursor was changed, has expired or was issued by another endpoint.
+ */
+export function decodeCursor(path: string, cursor: string): Cursor {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(decrypt(String(cursor)));
+  } catch {
+    throw new CursorInvalidError();
+  }
+  if (payload.p !== path || (payload.e && payload.e < Date.now())) throw new CursorInvalidError();
+  return { sort: payload.s, values: payload.v.map(decodeValue) };
+}
+
+/**
+ * The documents past the value of a sort key. Like MongoDB, null and missing values sort before any other value.
+ * @returns undefined if no document can be past the value.
+ */
+function pastValue(field: string, direction: 1 | -1, value: any): Record<string, any> | undefined {
+  if (value === null) return direction === 1 ? { [field]: { $ne: null } } : undefined;
+  if (direction === 1) return { [field]: { $gt: value } };
+  // an _id is never null
+  if (field === "_id") return { _id: { $lt: value } };
+  return { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+}
+
+/**
+ * Builds the filter of the documents after the cursor: the first sort key is past its value, or it is equal and the
+ * next one is past its value, and so on.
+ */
+export function cursorFilter({ sort, values }: Cursor): Record<string, any> {
+  const branches = sort.flatMap(([field, direction], index) => {
+    const past = pastValue(field, direction, values[index]);
+    if (!past) return [];
+    const branch: Record<string, any> = {};
+    for (let i = 0; i < index; i++) branch[sort[i][0]] = values[i];
+    return [{ ...branch, ...past }];
+  });
+  if (!branches.length) return { _id: { $exists: false } };
+  return branches.length === 1 ? branches[0] : { $or: branches };
+}
@@ -0,0 +1,85 @@
+import type { EndpointSchema } from "../types/level.types";
+import type { AuditOptions } from "../audit/audit.util";
+import type { RateLimitAlgorithm, RateLimitKey } from "../rate-limit/RateLimiter";
+import type { QueryPolicy } from "./QueryFirewall";
+import type { PrivateFieldsOptions } from "./channel.util";
+import type { ResponsePolicy } from "./response.util";
+import type { SoftDeleteOptions } from "./softDelete.util";
+import type { JsonPatchOp } from "./patch.util";
+import type { UploadConstraints, UploadPolicy } from "../storage/upload.util";
+import type { CursorOptions } from "./cursor.util";
+
+/**
+ * Rate limit options of an endpoint. `ttl` and `max` are the same values stored on the user level,
+ * the rest are optional and fall back to a fixed window keyed by endpoint and ip.
+ */
+export type EndpointRateLimit = {
+  ttl: number;
+  max: number;
+  algorithm?: RateLimitAlgorithm;
+  keyBy?: RateLimitKey | RateLimitKey[];
+};
+
+export type EndpointQueryOptions = {
+  /** How populate and projection entries touching private fields are handled. */
+  privateFields?: PrivateFieldsOptions;
+  /** The operators, depth and paths a client filter may use. */
+  policy?: QueryPolicy;
+  /** The most items a page may have, a larger itemsCount is reduced to it. */
+  maxItems?: number;
+  /** The items of a page when the client doesn't send an itemsCount. */
+  defaultItems?: number;
+  /**
+   * Pages with encrypted cursors instead of page numbers, `true` uses the default options. The client sends the cursor
+   * of the previous page as `cursor`, `ReadChain.nextCursor` issues it.
+   */
+  cursor?: boolean | CursorOptions;
+};
+
+export type EndpointPatchOptions = {
+  /** The JSON Patch operations the endpoint rejects, e.g. test, move or copy. */
+  deniedOps?: JsonPatchOp[];
+  /** Requires the Change<Path> action for every path the patch changes, e.g. ChangePostProfileEmail for /profile/email. */
+  checkChangeActions?: boolean;
+};
+
+export type EndpointBodyOptions = {
+  /** The update operators an update may use, plain fields count as `$set`. All operators are allowed if not set. */
+  operators?: string[];
+  patch?: EndpointPatchOptions;
+  uploads?: UploadPolicy[];
+  /** The ACL and constraints of the files detected by the `_file_url` suffix of their field. */
+  fileUploads?: UploadConstraints & { acl?: string };
+};
+
+/**
+ * How a bulk chain handles the items failing their checks. `atomic` rejects the whole batch, `partial` accepts
+ * the valid items and reports the others.
+ */
+export type BulkMode = "atomic" | "partial";
+
+export type EndpointBulkOptions = {
+  /** Defaults to atomic. */
+  mode?: BulkMode;
+  /** The most items a batch may have, defaults to 1000. */
+  maxItems?: number;
+};
+
+/**
+ * The endpoint schema as read by the chains. It extends the stored `EndpointSchema` with the options
+ * understood by this package.
+ */
+export type EndpointPolicy = Omit<EndpointSchema, "rateLimit"> & {
+  rateLimit?: EndpointRateLimit;
+  query?: EndpointSchema["query"] & EndpointQueryOptions;
+  body?: Omit<NonNullable<EndpointSchema["body"]>, "uploads"> & EndpointBodyOptions;
+  /** Which fields are redacted from the audit events of the endpoint. */
+  audit?: AuditOptions;
+  bulk?: EndpointBulkOptions;
+  /** The fields of the returned documents that are removed or masked, only used by Read endpoints. */
+  response?: ResponsePolicy;
+  /** Makes the deletes soft deletes, it overrides the option of the model and `false` disables them. */
+  softDelete?: boolean | SoftDeleteOptions;
+  /** `false` opts the endpoint out of the tenant scoping, e.g. for a collection shared by all tenants. */
+  tenant?: boolean;
+};
@@ -0,0 +1,155 @@
+import { isPlainObject } from "lodash-es";
+import { PatchInvalidError } from "../errors/ProblemError";
+
+export type JsonPatchOp = "add" | "remove" | "replace" | "move" | "copy" | "test";
+
+/**
+ * A single operation of an RFC 6902 JSON Patch.
+ */
+export type JsonPatchOperation = {
+  op: JsonPatchOp;
+  path: string;
+  value?: any;
+  from?: string;
+};
+
+/**
+ * A patch translated into a mongo update. The `test` operations become conditions of the filter.
+ */
+export type PatchTranslation = {
+  update: Record<string, any>;
+  filter: Record<string, any>;
+};
+
+const OPS: JsonPatchOp[] = ["add", "remove", "replace", "move", "copy", "test"];
+
+function isIndex(segment: string) {
+  return /^\d+$/.test(segment);
+}
+
+/**
+ * Converts a JSON pointer into the segments of a mongo path, e.g. `/profile/email` into ["profile", "email"].
+ */
+export function parsePointer(pointer: string): string[] {
+  if (typeof pointer !== "string" || !pointer.startsWith("/")) throw new PatchInvalidError(`${pointer} is not a JSON pointer.`);
+  const segments = pointer
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replaceAll("~1", "/").replaceAll("~0", "~"));
+  for (const segment of segments) {
+    if (!segment || segment.includes(".") || segment.startsWith("$"))
+      throw new PatchInvalidError(`The path ${pointer} can not be patched.`);
+  }
+  return segments;
+}
+
+class UpdateBuilder {
+  update: Record<string, any> = {};
+  private touched = new Map<string, string>();
+
+  add(operator: string, path: string, value: any) {
+    // mongo rejects an update that changes the same field or a parent and its child with different operators
+    for (const [touched, op] of this.touched) {
+      const overlaps = touched === path || touched.startsWith(path + ".") || path.startsWith(touched + ".");
+      if (overlaps && (op !== operator || touched !== path))
+        throw new PatchInvalidError(`The patch changes ${path} more than once.`);
+    }
+    this.touched.set(path, operator);
+
+    const current = this.update[operator]?.[path];
+    if (operator === "$push" && current !== undefined) {
+      // several adds to the same array are pushed together
+      if (current.$position !== undefined || value?.$position !== undefined)
+        throw new PatchInvalidError(`The patch adds to ${path} at a position more than once.`);
+      value = { $each: [...(current.$each || [current]), ...(value?.$each || [value])] };
+    }
+    this.update[operator] = { ...this.update[operator], [path]: value };
+  }
+}
+
+/**
+ * Translates an RFC 6902 JSON Patch into a mongo update.
+ * - add and replace become `$set`, adding to the end (`-`) or at an index of an array becomes `$push`.
+ * - remove becomes `$unset`, array items can't be removed by index.
+ * - move becomes `$rename` and test becomes a condition of the filter.
+ * - copy is not supported, a mongo update can't read the value to copy.
+ * @param deniedOps The operations the endpoint rejects.
+ */
+export function translateJsonPatch(operations: JsonPatchOperation[], deniedOps: JsonPatchOp[] = []): PatchTranslation {
+  const builder = new UpdateBuilder();
+  const tests: Record<string, any>[] = [];
+
+  operations.forEach((operation, index) => {
+    if (!isPlainObject(operation) || !OPS.includes(operation.op))
+      throw new PatchInvalidError(`The operation at index ${index} is not a valid JSON Patch operation.`);
+    if (deniedOps.includes(operation.op))
+      throw new PatchInvalidError(`The operation ${operation.op} is not allowed at this endpoint.`);
+    if (["add", "replace", "test"].includes(operation.op) && !("value" in operation))
+      throw new PatchInvalidError(`The ${operation.op} operation at index ${index} has no value.`);
+
+    const segments = parsePointer(operation.path);
+    const path = segments.join(".");
+    const last = segments[segments.length - 1];
+    const parent = segments.slice(0, -1).join(".");
+
+    switch (operation.op) {
+      case "add":
+        if (last === "-" && !parent)
+          throw new PatchInvalidError(`The document is not an array, ${operation.path} can not be added.`);
+        if (last === "-") builder.add("$push", parent, operation.value);
+        else if (isIndex(last) && parent) builder.add("$push", parent, { $each: [operation.value], $position: Number(last) });
+        else builder.add("$set", path, operation.value);
+        break;
+      case "replace":
+        builder.add("$set", path, operation.value);
+        break;
+      case "remove":
+        if (isIndex(last)) throw new PatchInvalidError(`The array item ${operation.path} can not be removed by index.`);
+        builder.add("$unset", path, "");
+        break;
+      case "move": {
+        const from = parsePointer(operation.from!);
+        if ([...from, ...segments].some(isIndex)) throw new PatchInvalidError(`Array items can not be moved.`);
+        builder.add("$rename", from.join("."), path);
+        break;
+      }
+      case "test":
+        // the value is compared as is, so an object value can't carry query operators
+        tests.push({ [path]: { $eq: operation.value } });
+        break;
+      case "copy":
+        throw new PatchInvalidError(`The copy operation is not supported.`);
+    }
+  });
+
+  return { update: builder.update, filter: tests.length > 1 ? { $and: tests } : tests[0] || {} };
+}
+
+/**
+ * Translates an RFC 7396 Merge Patch into a mongo update. `null` removes a field, objects are merged and every
+ * other value, including arrays, replaces the field.
+ */
+export function translateMergePatch(patch: Record<string, any>): PatchTranslation {
+  const builder = new UpdateBuilder();
+
+  const walk = (node: Record<string, any>, prefix: string[]) => {
+    for (const [key, value] of Object.entries(node)) {
+      if (!key || key.includes(".") || key.startsWith("$")) throw new PatchInvalidError(`The field ${key} can not be patched.`);
+      const path = [...prefix, key];
+      if (value === null) builder.add("$unset", path.join("."), "");
+      else if (isPlainObject(value)) walk(value, path);
+      else builder.add("$set", path.join("."), value);
+    }
+  };
+
+  if (!isPlainObject(patch)) throw new PatchInvalidError(`A merge patch must be an object.`);
+  walk(patch, []);
+  return { update: builder.update, filter: {} };
+}
+
+/**
+ * Translates either kind of patch, a JSON Patch is an array of operations and a Merge Patch is an object.
+ */
+export function translatePatch(patch: any, deniedOps?: JsonPatchOp[]): PatchTranslation {
+  return Array.isArray(patch) ? translateJsonPatch(patch, deniedOps) : translateMergePatch(patch);
+}
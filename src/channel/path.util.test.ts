@@ -0,0 +1,38 @@
+import { describe, expect, it } from "bun:test";
+import { deleteKeyPaths, findKeyPaths, matchValue } from "./path.util";
+
+describe("key paths", () => {
+  it("finds the keys set to falsy values", () => {
+    expect(findKeyPaths({ a: 0, b: false, c: "", d: undefined }, "*").map((match) => match.path)).toEqual(["a", "b", "c"]);
+  });
+
+  it("finds nested keys, array items and literal dotted keys", () => {
+    const doc: any = { profile: { email: "a" }, "profile.email": "b", items: [{ price: 1 }, { name: "x" }, { price: 2 }] };
+    expect(findKeyPaths(doc, "profile.email").map((match) => match.value)).toEqual(["a", "b"]);
+    expect(findKeyPaths(doc, "items[].price").map((match) => match.path)).toEqual(["items.0.price", "items.2.price"]);
+    expect(findKeyPaths({ "a.b": { c: 1 } }, "a.b.c").map((match) => match.path)).toEqual(["a.b.c"]);
+
+    deleteKeyPaths(findKeyPaths(doc, "profile.email"));
+    expect(doc).toEqual({ profile: {}, items: [{ price: 1 }, { name: "x" }, { price: 2 }] });
+  });
+});
+
+describe("value matchers", () => {
+  it("matches the values like a key value of a level", () => {
+    expect(matchValue("admin", "admin")).toBe(true);
+    expect(matchValue("admin", ["user", "admin"])).toBe(true);
+    expect(matchValue(5, { $gte: 1, $lt: 5 })).toBe(false);
+    expect(matchValue("Admin", { $regex: "^admin$", $options: "i" })).toBe(true);
+    expect(matchValue(null, { $type: ["null", "string"] })).toBe(true);
+  });
+
+  it("matches the items of an array", () => {
+    expect(matchValue(["user", "admin"], "admin")).toBe(true);
+    expect(matchValue(["user"], ["admin", "owner"])).toBe(false);
+    expect(matchValue(["user", "Admin"], { $regex: "^admin$", $options: "i" })).toBe(true);
+    expect(matchValue([1, 10], { $gt: 5 })).toBe(true);
+    expect(matchValue(["user", "admin"], { $nin: ["admin"] })).toBe(false);
+    expect(matchValue(["user"], { $nin: ["admin"] })).toBe(true);
+    expect(matchValue(["a"], { $type: "array" })).toBe(true);
+  });
+});
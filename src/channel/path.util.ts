@@ -0,0 +1,171 @@
+import { capitalize, isEqual, isObjectLike } from "lodash-es";
+
+/**
+ * A condition on the value of a key. Several conditions in one object must all match.
+ */
+export type ValueCondition = {
+  $eq?: any;
+  $in?: any[];
+  $nin?: any[];
+  $regex?: string;
+  $options?: string;
+  $gt?: Bound;
+  $gte?: Bound;
+  $lt?: Bound;
+  $lte?: Bound;
+  $type?: ValueType | ValueType[];
+};
+
+/** The bound of a range, a date can be a Date or an ISO string. */
+export type Bound = number | Date | string;
+
+export type ValueType = "string" | "number" | "boolean" | "array" | "object" | "null";
+
+/**
+ * A plain string matches an equal value and a list of strings matches any of them, like the values of a `KeyValue`.
+ */
+export type ValueMatcher = string | string[] | ValueCondition;
+
+/**
+ * Maps key paths to the value they must have to be denied. It accepts any `KeyValue` of the user levels.
+ */
+export type KeyMatcher = Record<string, ValueMatcher>;
+
+export type PathMatch = {
+  /** The concrete path of the match, e.g. items.0.price for items[].price. */
+  path: string;
+  parent: any;
+  key: string | number;
+  value: any;
+};
+
+/**
+ * Splits a path expression into its segments.
+ * - `profile.email` addresses a nested key.
+ * - `*` matches any key of an object or any item of an array.
+ * - `[]` matches any item of an array, e.g. `items[].price`.
+ */
+export function parseKeyPath(expression: string): string[] {
+  return expression.replaceAll("[]", ".[]").split(".").filter(Boolean);
+}
+
+function isWildcard(segment: string) {
+  return segment === "*" || segment === "[]";
+}
+
+/**
+ * Returns the children of the node for the segments from `index`, with the index of the next segment. Besides the
+ * nested keys, a literal dotted key of the node matches several segments at once, e.g. `{ "profile.email": x }`.
+ */
+function children(node: any, segments: string[], index: number): [string | number, any, number][] {
+  if (!isObjectLike(node)) return [];
+  const segment = segments[index];
+  const items = (): [number, any, number][] => node.map((value: any, i: number) => [i, value, index + 1]);
+  if (segment === "[]") return Array.isArray(node) ? items() : [];
+  if (segment === "*") return Array.isArray(node) ? items() : Object.entries(node).map(([k, v]) => [k, v, index + 1]);
+
+  const found: [string, any, number][] = [];
+  for (let end = index + 1; end <= segments.length && !isWildcard(segments[end - 1]); end++) {
+    const key = segments.slice(index, end).join(".");
+    if (Object.prototype.hasOwnProperty.call(node, key)) found.push([key, node[key], end]);
+  }
+  return found;
+}
+
+/**
+ * Finds every key of the object addressed by the path expression. A key is present if it is set to anything
+ * but undefined, so `0`, `false` and `""` are found too.
+ */
+export function findKeyPaths(obj: any, expression: string): PathMatch[] {
+  const segments = parseKeyPath(expression);
+  const matches: PathMatch[] = [];
+
+  const walk = (node: any, index: number, path: string[]) => {
+    for (const [key, value, next] of children(node, segments, index)) {
+      if (value === undefined) continue;
+      const current = [...path, key.toString()];
+      if (next === segments.length) matches.push({ path: current.join("."), parent: node, key, value });
+      else walk(value, next, current);
+    }
+  };
+
+  if (segments.length) walk(obj, 0, []);
+  return matches;
+}
+
+/**
+ * Removes the matched keys from their parents. Array items are spliced, starting from the last one so the
+ * indexes of the others stay valid.
+ */
+export function deleteKeyPaths(matches: PathMatch[]) {
+  for (const match of [...matches].reverse()) {
+    if (Array.isArray(match.parent) && typeof match.key === "number") match.parent.splice(match.key, 1);
+    else delete match.parent[match.key];
+  }
+}
+
+/**
+ * Converts a path expression into the field part of an action, e.g. `profile.email` becomes ProfileEmail.
+ */
+export function keyPathToAction(expression: string) {
+  return parseKeyPath(expression)
+    .filter((segment) => segment !== "*" && segment !== "[]")
+    .map(capitalize)
+    .join("");
+}
+
+function typeOf(value: any): ValueType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value as ValueType;
+}
+
+/**
+ * Like a MongoDB filter, an array matches if the array itself or one of its items matches, e.g. `roles: ["admin"]`
+ * matches `"admin"`. Each condition may be met by a different item, and `$nin` requires that no item is listed.
+ */
+export function matchValue(value: any, matcher: ValueMatcher): boolean {
+  if (!Array.isArray(value)) return matchOne(value, matcher);
+  if (typeof matcher === "string" || Array.isArray(matcher)) return [value, ...value].some((v) => matchOne(v, matcher));
+
+  const { $nin, $options, ...rest } = matcher;
+  if ($nin && [value, ...value].some((v) => $nin.some((m) => isEqual(v, m)))) return false;
+  return Object.entries(rest).every(([op, m]) => {
+    const condition = op === "$regex" ? { $regex: m, $options } : { [op]: m };
+    return [value, ...value].some((v) => matchOne(v, condition));
+  });
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+function toTime(value: any) {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && ISO_DATE.test(value)) return Date.parse(value);
+  return NaN;
+}
+
+/**
+ * Compares a value with the bound of a range like MongoDB, only numbers with numbers and dates with dates.
+ * @returns The difference, or NaN if they can't be compared.
+ */
+function compare(value: any, bound: Bound) {
+  if (typeof bound === "number") return typeof value === "number" ? value - bound : NaN;
+  return toTime(value) - toTime(bound);
+}
+
+function matchOne(value: any, matcher: ValueMatcher): boolean {
+  if (typeof matcher === "string") return value === matcher;
+  if (Array.isArray(matcher)) return matcher.some((m) => m === value);
+
+  const { $eq, $in, $nin, $regex, $options, $gt, $gte, $lt, $lte, $type } = matcher;
+  if ($eq !== undefined && !isEqual(value, $eq)) return false;
+  if ($in && !$in.some((m) => isEqual(value, m))) return false;
+  if ($nin && $nin.some((m) => isEqual(value, m))) return false;
+  if ($regex !== undefined && (typeof value !== "string" || !new RegExp($regex, $options).test(value))) return false;
+  if ($gt !== undefined && !(compare(value, $gt) > 0)) return false;
+  if ($gte !== undefined && !(compare(value, $gte) >= 0)) return false;
+  if ($lt !== undefined && !(compare(value, $lt) < 0)) return false;
+  if ($lte !== undefined && !(compare(value, $lte) <= 0)) return false;
+  if ($type !== undefined && !([] as ValueType[]).concat($type).includes(typeOf(value))) return false;
+  return true;
+}
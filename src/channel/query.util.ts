@@ -0,0 +1,53 @@
+import { isPlainObject } from "lodash-es";
+import type { QueryOptions } from "mongoose";
+
+/**
+ * Parses a JSON string of a query param, e.g. `{"$gt":3}`. Other values are returned as they are.
+ */
+export function parseObject(value: any): any {
+  if (typeof value !== "string" || !/^\s*[[{]/.test(value)) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parses the JSON strings of every value of a query, e.g. the values of `?age={"$gt":3}&tags=["a"]`.
+ */
+export function parseNestedObject<T>(query: T): T {
+  if (!isPlainObject(query)) return query;
+  return Object.fromEntries(
+    Object.entries(query as Record<string, any>).map(([key, value]) => [key, parseNestedObject(parseObject(value))])
+  ) as T;
+}
+
+/**
+ * Merges the default filter of an endpoint into the client filter.
+ * @param merge Whether the filters are merged, otherwise the default filter replaces the client filter. Defaults to true.
+ * @param isPrior Whether the keys of the client filter win over the keys of the default filter. Defaults to false.
+ */
+export function makeQuery<T extends Record<string, any>>(
+  filter: T,
+  defaultFilter?: Record<string, any>,
+  merge = true,
+  isPrior = false
+): T {
+  if (!defaultFilter) return filter;
+  if (!merge) return defaultFilter as T;
+  return (isPrior ? { ...defaultFilter, ...filter } : { ...filter, ...defaultFilter }) as T;
+}
+
+/**
+ * Converts the read options of a client into mongoose query options, e.g. `page` and `itemsCount` into `skip` and
+ * `limit`. The options of the endpoint win over the options of the client.
+ */
+export function makeQueryOption(userOptions: Record<string, any>, defaultOptions?: QueryOptions): QueryOptions {
+  const { page, itemsCount, ...options } = userOptions;
+  const result: QueryOptions = { ...options, ...defaultOptions };
+  if (itemsCount !== undefined) result.limit ??= Number(itemsCount);
+  // the pages are counted with the limit of the endpoint if it has one
+  if (page !== undefined && result.limit) result.skip ??= (Number(page) - 1) * result.limit;
+  return result;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "bun:test";
+import Channel from "./Channel";
+import type ReadChain from "./ReadChain";
+import { filterResponse, maskValue } from "./response.util";
+
+class Post {}
+
+function read(...actions: string[]) {
+  const response = { fields: ["email", "comments[].email"], masks: { "*": { phone: "last4" }, User: { email: "email" } } };
+  const user: any = {
+    _id: "42",
+    type: "User",
+    level: { actions: ["ReadPost", ...actions], access: { endpoints: { posts: { read: { baseAction: "Post", response } } } } },
+  };
+  return new Channel<any>().start(Post, user, "posts.read").Read({}) as ReadChain<any>;
+}
+
+describe("response policy", () => {
+  const doc = (): any => ({ email: "jane@example.com", phone: "0612345678", comments: [{ email: "joe@example.com" }] });
+
+  it("keeps the fields of the users with their action and masks the others", () => {
+    expect(read("ReadPostEmail", "ReadPostCommentsEmail").sanitize(doc())).toEqual({
+      email: "jane@example.com",
+      phone: "***5678",
+      comments: [{ email: "joe@example.com" }],
+    });
+  });
+
+  it("masks or removes the fields of the users without their action", () => {
+    expect(read().sanitize([doc()])).toEqual([{ email: "j***@example.com", phone: "***5678", comments: [{}] }]);
+  });
+
+  it("removes the fields of the user types without a mask", () => {
+    const details: Record<string, any> = {};
+    const result = filterResponse(doc(), { fields: ["email"] }, { userType: "Admin", canRead: () => false }, details);
+    expect(result).toEqual({ phone: "0612345678", comments: [{ email: "joe@example.com" }] });
+    expect(details).toEqual({ removed: ["email"], masked: [] });
+    expect(() => maskValue("a", "missing")).toThrow();
+  });
+});
@@ -0,0 +1,103 @@
+import type { UserType } from "../types/user.types";
+import { isObjectLike } from "lodash-es";
+import { deleteKeyPaths, findKeyPaths } from "./path.util";
+
+/**
+ * Replaces the value of a masked field, e.g. an email address with j***@example.com.
+ */
+export type Masker = (value: any) => any;
+
+const HIDDEN = "***";
+
+const maskers: Record<string, Masker> = {
+  hide: () => HIDDEN,
+  email: (value) => {
+    const [name, domain] = String(value).split("@");
+    return domain === undefined ? HIDDEN : `${name.slice(0, 1)}${HIDDEN}@${domain}`;
+  },
+  partial: (value) => {
+    const text = String(value);
+    return text.length > 2 ? `${text[0]}${HIDDEN}${text[text.length - 1]}` : HIDDEN;
+  },
+  last4: (value) => {
+    const text = String(value);
+    return text.length > 4 ? `${HIDDEN}${text.slice(-4)}` : HIDDEN;
+  },
+};
+
+/**
+ * Registers a mask the response policies can use by its name. The built-in masks are hide, email, partial and last4.
+ */
+export function registerMask(name: string, masker: Masker) {
+  maskers[name] = masker;
+}
+
+/**
+ * What the documents returned by a Read endpoint may contain.
+ */
+export type ResponsePolicy = {
+  /**
+   * The fields only returned to the users with the Read<Field> action, e.g. `email` needs ReadPostEmail. They are
+   * removed for the others, or masked if the user type has a mask for them. Path expressions are supported, e.g.
+   * `author.email` for a populated document or `comments[].email`.
+   */
+  fields?: string[];
+  /** The masks of the fields per user type, `*` applies to every user type, e.g. `{ User: { email: "email" } }`. */
+  masks?: Partial<Record<UserType | "*", Record<string, string>>>;
+};
+
+export type ResponseFilterContext = {
+  userType?: UserType;
+  /** Whether the user can read the field with this value. */
+  canRead: (field: string, value: any) => boolean;
+};
+
+/**
+ * Filters returned documents with a response policy. Plain documents are changed in place, mongoose documents are
+ * converted with `toObject` first.
+ * @param details Receives the removed and the masked paths.
+ */
+export function filterResponse<T>(
+  result: T,
+  policy: ResponsePolicy,
+  context: ResponseFilterContext,
+  details: Record<string, any> = {}
+): T {
+  details.removed ??= [];
+  details.masked ??= [];
+  if (Array.isArray(result)) return result.map((doc) => filterResponse(doc, policy, context, details)) as T;
+  if (!isObjectLike(result)) return result;
+
+  const doc: any = typeof (result as any).toObject === "function" ? (result as any).toObject() : result;
+  const masks = { ...policy.masks?.["*"], ...(context.userType ? policy.masks?.[context.userType] : undefined) };
+  const fields = policy.fields || [];
+
+  for (const field of fields) {
+    const denied = findKeyPaths(doc, field).filter((match) => !context.canRead(field, match.value));
+    if (masks[field]) {
+      for (const match of denied) match.parent[match.key] = maskValue(match.value, masks[field]);
+      details.masked.push(...denied.map((match) => match.path));
+    } else {
+      deleteKeyPaths(denied);
+      details.removed.push(...denied.map((match) => match.path));
+    }
+  }
+
+  // the fields with an action are only masked when the user can't read them
+  for (const [field, mask] of Object.entries(masks)) {
+    if (fields.includes(field)) continue;
+    const matches = findKeyPaths(doc, field);
+    for (const match of matches) match.parent[match.key] = maskValue(match.value, mask);
+    details.masked.push(...matches.map((match) => match.path));
+  }
+  return doc;
+}
+
+/**
+ * @throws {Error} If the mask is not registered.
+ */
+export function maskValue(value: any, mask: string) {
+  const masker = maskers[mask];
+  if (!masker) throw new Error(`There is no mask named ${mask}.`);
+  return value === null ? value : masker(value);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "bun:test";
+import { ActionDeniedError } from "../errors/ProblemError";
+import { ErrorCode } from "../errors/messages";
+import Channel from "./Channel";
+
+class Post {}
+
+const softDelete = { baseAction: "Post", body: { useDefaultSchema: false }, softDelete: true };
+
+function start(actions: string[], posts: Record<string, any>, path: string) {
+  const user: any = { _id: "42", type: "User", level: { actions, access: { endpoints: { posts } } } };
+  return new Channel<any>().start(Post, user, path);
+}
+
+const writer = (path: string) =>
+  start(
+    ["CreatePost", "ReadPost", "UpdatePost", "DeletePost"],
+    {
+      create: softDelete,
+      read: softDelete,
+      update: { ...softDelete, softDelete: { field: "meta.removedAt", byField: "removedBy" } },
+      delete: softDelete,
+    },
+    path
+  );
+
+describe("soft deletes", () => {
+  it("excludes the deleted documents and deletes with an update", async () => {
+    const { filter }: any = await writer("posts.read").Read({ title: "a" }).perform();
+    expect(filter).toEqual({ title: "a", deletedAt: null });
+
+    const deleted: any = await writer("posts.delete").Delete({ _id: "1" }).perform();
+    expect(deleted.update.$set.deletedAt).toBeInstanceOf(Date);
+  });
+
+  it("removes the deleted fields set by the client on a create", async () => {
+    const { doc }: any = await writer("posts.create").Create({ title: "a", deletedAt: null, deletedBy: "someone" }).perform();
+    expect(doc).toEqual({ title: "a" });
+  });
+
+  it("removes the deleted fields set by the client on an update", async () => {
+    const body = { $set: { title: "a", meta: { removedAt: null, views: 1 } }, $unset: { "meta.removedAt": "", removedBy: "" } };
+    const { update }: any = await writer("posts.update").Update({ _id: "1" }, body).perform();
+    expect(update).toEqual({ $set: { title: "a", meta: { views: 1 } } });
+  });
+
+  it("only restores with the restore action", async () => {
+    expect(() => writer("posts.delete").Restore({ _id: "1" })).toThrow(ActionDeniedError);
+    const { filter, update }: any = await start(["RestorePost"], { delete: softDelete }, "posts.delete")
+      .Restore({ _id: "1" })
+      .perform();
+    expect(filter).toEqual({ _id: "1", deletedAt: { $ne: null } });
+    expect(update).toEqual({ $unset: { deletedAt: "", deletedBy: "" } });
+  });
+
+  it("checks the filter of a restore like the one of a delete", async () => {
+    const restore = () =>
+      start(["DeletePost", "RestorePost"], { delete: { ...softDelete, query: { deniedKeys: ["owner"] } } }, "posts.delete");
+    await expect(restore().Delete({ owner: "1" }).perform()).rejects.toMatchObject({
+      code: ErrorCode.KeyDenied,
+      params: { action: "DeletePostOwner" },
+    });
+    await expect(restore().Restore({ owner: "1" }).perform()).rejects.toMatchObject({
+      code: ErrorCode.KeyDenied,
+      params: { action: "RestorePostOwner" },
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import type { UserDocument } from "../types/user.types";
+import { getEntity } from "../context/ChannelContext";
+
+export type SoftDeleteOptions = {
+  /** The date the document was deleted at, null or missing while it is not deleted. Defaults to deletedAt. */
+  field?: string;
+  /** The user who deleted the document. Defaults to deletedBy. */
+  byField?: string;
+};
+
+const registry = new Map<Function, SoftDeleteOptions>();
+
+/**
+ * Makes the deletes of a model soft deletes. It can also be declared on the model by the `docs:softDelete` metadata.
+ */
+export function registerSoftDelete(model: Function, options: SoftDeleteOptions = {}) {
+  registry.set(model, options);
+}
+
+/**
+ * @param endpointOption The `softDelete` option of the endpoint, it overrides the option of the model and `false`
+ * disables soft deletes.
+ * @returns The soft delete options with their defaults, undefined if deletes are hard deletes.
+ */
+export function getSoftDelete(
+  model?: Function,
+  endpointOption?: boolean | SoftDeleteOptions
+): Required<SoftDeleteOptions> | undefined {
+  if (endpointOption === false) return undefined;
+  const options =
+    typeof endpointOption === "object"
+      ? endpointOption
+      : endpointOption || (model && (registry.get(model) || getEntity(model, "docs:softDelete")));
+  if (!options) return undefined;
+  return { field: "deletedAt", byField: "deletedBy", ...(options === true ? {} : options) };
+}
+
+/**
+ * Matches the documents that are not deleted.
+ */
+export function notDeletedFilter(options: Required<SoftDeleteOptions>) {
+  return { [options.field]: null };
+}
+
+/**
+ * Matches the deleted documents.
+ */
+export function deletedFilter(options: Required<SoftDeleteOptions>) {
+  return { [options.field]: { $ne: null } };
+}
+
+export function softDeleteUpdate(options: Required<SoftDeleteOptions>, user?: UserDocument) {
+  return { $set: { [options.field]: new Date(), [options.byField]: user?._id } };
+}
+
+export function restoreUpdate(options: Required<SoftDeleteOptions>) {
+  return { $unset: { [options.field]: "", [options.byField]: "" } };
+}
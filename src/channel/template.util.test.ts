@@ -0,0 +1,41 @@
+import { describe, expect, it } from "bun:test";
+import { TemplateError } from "../errors/Errors";
+import Channel from "./Channel";
+import { resolveClientTemplates, resolveTemplates } from "./template.util";
+
+class Post {}
+
+describe("templates", () => {
+  const user: any = { _id: "42", type: "User", password: "secret", organization: "acme" };
+
+  it("resolves the variables of the policy", () => {
+    const data = { owner: "*current_user*", org: "*current_user.organization*", path: "orgs/*params.id*/files" };
+    expect(resolveTemplates(data, { user, params: { id: "7" } })).toEqual({
+      owner: user._id,
+      org: "acme",
+      path: "orgs/7/files",
+    });
+    expect(() => resolveTemplates("*now:unknown*", { user })).toThrow(TemplateError);
+  });
+
+  it("leaves the strings without a registered variable as they are", () => {
+    const schema = { properties: { code: { pattern: "^a*b*$" }, title: { description: "a *bold* title", const: "*unknown*" } } };
+    expect(resolveTemplates(schema, { user })).toEqual(schema);
+    expect(resolveTemplates("*now* or *later*", { user })).toMatch(/^\d{4}-.+ or \*later\*$/);
+  });
+
+  it("only resolves the current user in the data of a client", () => {
+    const data = { owner: "*current_user*", password: "*current_user.password*", note: "by *current_user*", ip: "*request.ip*" };
+    expect(resolveClientTemplates(data, { user })).toEqual({ ...data, owner: user._id });
+  });
+
+  it("keeps the other templates of a created doc", async () => {
+    const body = { useDefaultSchema: false, default: { org: "*current_user.organization*" } };
+    const level = { actions: ["CreatePost"], access: { endpoints: { posts: { create: { baseAction: "Post", body } } } } };
+    const { doc }: any = await new Channel<any>()
+      .start(Post, { ...user, level }, "posts.create")
+      .Create({ author: "*current_user*", title: "*current_user.password*" })
+      .perform();
+    expect(doc).toEqual({ author: user._id, title: "*current_user.password*", org: "acme" });
+  });
+});
@@ -0,0 +1,131 @@
+import type { IP, UserDocument } from "../types/user.types";
+import { cloneDeepWith, get } from "lodash-es";
+import { Types } from "mongoose";
+import { TemplateError } from "../errors/Errors";
+
+/**
+ * The values a template can read from.
+ */
+export type TemplateContext = {
+  user?: UserDocument;
+  ip?: IP;
+  /** The route params of the request. */
+  params?: Record<string, any>;
+  /** The id of the document the request works on. */
+  model?: any;
+};
+
+/**
+ * Resolves a variable. `path` is the part after the variable name, e.g. organization for `*current_user.organization*`.
+ */
+export type TemplateVariable = (ctx: TemplateContext, path?: string) => any;
+
+export type TemplateOptions = {
+  /** Converts every resolved value into a string, e.g. to use it inside a JSON schema. */
+  stringify?: boolean;
+  /** Only these variables are resolved, the other templates are left as they are. */
+  variables?: string[];
+  /** Called with every key and value of the data, before the value is resolved. */
+  onValue?: (key: string, value: any) => void;
+};
+
+type Cast = (value: any) => any;
+
+const casts: Record<string, Cast> = {
+  string: (value) => value?.toString(),
+  number: (value) => Number(value),
+  boolean: (value) => value === true || value === "true",
+  date: (value) => new Date(value),
+  objectId: (value) => new Types.ObjectId(value?.toString()),
+};
+
+const variables = new Map<string, TemplateVariable>();
+
+/**
+ * Registers a variable that can be used as `*name*` or `*name.path*` in query defaults, schemas,
+ * body defaults and upload directories.
+ */
+export function registerTemplateVariable(name: string, variable: TemplateVariable) {
+  variables.set(name, variable);
+}
+
+registerTemplateVariable("current_user", (ctx, path) => (path ? get(ctx.user, path) : ctx.user?._id));
+registerTemplateVariable("current_model", (ctx) => ctx.model);
+registerTemplateVariable("now", () => new Date());
+registerTemplateVariable("request", (ctx, path) => get({ ip: ctx.ip?.address }, path || ""));
+registerTemplateVariable("params", (ctx, path) => (path ? get(ctx.params, path) : ctx.params));
+
+/**
+ * Matches `*name*`, `*name.path*` and the typed forms `*name:type*`, e.g. `*params.id:objectId*`. Only the names of
+ * registered variables are templates, so a regex like `^a*b*$` or a text like `*bold*` is left as it is.
+ */
+const TEMPLATE = /\*([a-zA-Z_]\w*)((?:\.\w+)*)(?::(\w+))?\*/g;
+
+function isTemplate(name: string, options?: TemplateOptions) {
+  return variables.has(name) && (!options?.variables || options.variables.includes(name));
+}
+
+/**
+ * Whether a string contains a template of a registered variable.
+ */
+export function hasTemplate(value: string) {
+  return [...value.matchAll(TEMPLATE)].some(([, name]) => isTemplate(name));
+}
+
+function resolveVariable(ctx: TemplateContext, name: string, path: string, type?: string) {
+  const value = variables.get(name)!(ctx, path ? path.slice(1) : undefined);
+  if (!type) return value;
+
+  const cast = casts[type];
+  if (!cast) throw new TemplateError(`The template type ${type} of *${name}${path}* is not supported.`);
+  return cast(value);
+}
+
+/**
+ * Resolves the templates of a string. A string that is a single template resolves to the typed value of the
+ * variable, e.g. an ObjectId for `*current_user*`, otherwise each template is interpolated as a string.
+ */
+export function resolveTemplate(template: string, ctx: TemplateContext, options?: TemplateOptions) {
+  const matches = [...template.matchAll(TEMPLATE)].filter(([, name]) => isTemplate(name, options));
+  if (!matches.length) return template;
+
+  if (matches.length === 1 && matches[0][0] === template) {
+    const [, name, path, type] = matches[0];
+    const value = resolveVariable(ctx, name, path, type);
+    return options?.stringify ? stringify(value) : value;
+  }
+
+  return template.replace(TEMPLATE, (match, name, path, type) => {
+    if (!isTemplate(name, options)) return match;
+    return stringify(resolveVariable(ctx, name, path, type));
+  });
+}
+
+function stringify(value: any) {
+  if (value instanceof Date) return value.toISOString();
+  return value?.toString();
+}
+
+/**
+ * Deeply clones the data of a client, e.g. the doc of a create, and resolves the values that are exactly
+ * `*current_user*` to the id of the user. The other templates are left as they are, so a client can't read the fields
+ * of the user like `*current_user.password*`.
+ * @param onValue Called with every key and value of the data, like the option of `resolveTemplates`.
+ */
+export function resolveClientTemplates<T = any>(data: T, ctx: TemplateContext, onValue?: TemplateOptions["onValue"]): T {
+  return cloneDeepWith(data, (value, key) => {
+    onValue && key && onValue(key.toString(), value);
+    if (value === "*current_user*") return ctx.user?._id;
+  });
+}
+
+/**
+ * Deeply clones the data and resolves every template in its strings.
+ * @throws {TemplateError} If a template references an unknown type.
+ */
+export function resolveTemplates<T = any>(data: T, ctx: TemplateContext, options?: TemplateOptions): T {
+  return cloneDeepWith(data, (value, key) => {
+    options?.onValue && key && options.onValue(key.toString(), value);
+    if (typeof value === "string") return resolveTemplate(value, ctx, options);
+  });
+}
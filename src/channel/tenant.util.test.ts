@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { TenantRequiredError } from "../errors/ProblemError";
+import Channel from "./Channel";
+import { setTenantResolver } from "./tenant.util";
+
+class Post {}
+
+function start(path: string, organization?: string, ...actions: string[]) {
+  const endpoint = { baseAction: "Post", body: { useDefaultSchema: false } };
+  const user: any = {
+    _id: "42",
+    type: "User",
+    organization,
+    level: {
+      actions: ["ReadPost", "CreatePost", ...actions],
+      access: { endpoints: { posts: { read: endpoint, create: endpoint } } },
+    },
+  };
+  return new Channel<any>().start(Post, user, path);
+}
+
+describe("tenants", () => {
+  beforeEach(() => setTenantResolver({ resolve: ({ user }) => (user as any)?.organization }));
+  afterEach(() => setTenantResolver(undefined));
+
+  it("scopes the filter and the created doc to the tenant of the user", async () => {
+    const { filter }: any = await start("posts.read", "acme").Read({ tenant: "other" }).perform();
+    expect(filter).toEqual({ $and: [{ tenant: "other" }, { tenant: "acme" }] });
+
+    const { doc }: any = await start("posts.create", "acme").Create({ title: "a", tenant: "other" }).perform();
+    expect(doc).toEqual({ title: "a", tenant: "acme" });
+  });
+
+  it("denies the requests without a tenant", () => {
+    expect(() => start("posts.read").Read({})).toThrow(TenantRequiredError);
+  });
+
+  it("lifts the scope for the users with the CrossTenant action", async () => {
+    const { filter }: any = await start("posts.read", undefined, "CrossTenantPost").Read({ tenant: "other" }).perform();
+    expect(filter).toEqual({ tenant: "other" });
+
+    const { doc }: any = await start("posts.create", "acme", "CrossTenantPost").Create({ tenant: "other" }).perform();
+    expect(doc).toEqual({ tenant: "other" });
+  });
+});
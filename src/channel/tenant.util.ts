@@ -0,0 +1,35 @@
+import type { IP, UserDocument } from "../types/user.types";
+
+export type TenantContext = {
+  user?: UserDocument;
+  ip?: IP;
+  /** The route params of the request. */
+  params?: Record<string, any>;
+};
+
+export type TenantOptions = {
+  /** Derives the tenant of a request, e.g. `({ user }) => user?.organization`. It runs in the chain constructor, so it is synchronous. */
+  resolve: (ctx: TenantContext) => any;
+  /** The field holding the tenant of the documents. Defaults to tenant. */
+  field?: string;
+};
+
+let tenantOptions: Required<TenantOptions> | undefined;
+
+/**
+ * Scopes every chain to the tenant of its request. Pass undefined to disable the scoping.
+ */
+export function setTenantResolver(options?: TenantOptions) {
+  tenantOptions = options && { field: "tenant", ...options };
+}
+
+export function getTenantOptions() {
+  return tenantOptions;
+}
+
+/**
+ * Prefixes an upload directory with the tenant, so the files of the tenants never share a directory.
+ */
+export function tenantDirectory(directory: string, tenant: any) {
+  return `tenants/${tenant}/${directory}`;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "bun:test";
+import { validateUpdateSchema } from "./update.util";
+
+const schema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["title"],
+  properties: {
+    title: { type: "string" },
+    views: { type: "integer" },
+    flags: { type: "integer" },
+    updatedAt: { type: "string", format: "date-time" },
+    tags: { type: "array", items: { type: "string", maxLength: 5 } },
+    items: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "price"],
+        properties: { name: { type: "string" }, price: { type: "number", minimum: 0 } },
+      },
+    },
+  },
+};
+
+function errorsOf(update: Record<string, any>) {
+  return (validateUpdateSchema(update, schema).errors || []).map((error) => error.instancePath);
+}
+
+describe("validateUpdateSchema", () => {
+  it("validates a partial $set without the required fields of the document", () => {
+    expect(errorsOf({ $set: { views: 1 } })).toEqual([]);
+    expect(errorsOf({ views: "1" })).toEqual(["/$set/views"]);
+    expect(errorsOf({ $set: { unknown: 1 } })).toEqual(["/$set/unknown"]);
+    expect(errorsOf({ $set: { items: [{ name: "a" }] } })).toEqual(["/$set/items/0"]);
+  });
+
+  it("validates the array items addressed by index or positional operator", () => {
+    expect(errorsOf({ $set: { "items.$.price": 2, "items.0.name": "a", "items.$[item].price": 3 } })).toEqual([]);
+    expect(errorsOf({ $set: { "items.$.price": -1 } })).toEqual(["/$set/items/$/price"]);
+    expect(errorsOf({ $set: { "items.0": { name: "a" } } })).toEqual(["/$set/items/0"]);
+  });
+
+  it("validates the operators that remove array items", () => {
+    expect(errorsOf({ $pull: { tags: "a", items: { price: { $gt: 1 } } }, $pop: { tags: 1 } })).toEqual([]);
+    expect(errorsOf({ $pull: { tags: "too long" } })).toEqual(["/$pull/tags"]);
+    expect(errorsOf({ $pull: { tags: { $in: ["a", 1] } } })).toEqual(["/$pull/tags"]);
+    expect(errorsOf({ $pullAll: { tags: "a" } })).toEqual(["/$pullAll/tags"]);
+    expect(errorsOf({ $pop: { tags: 2, title: 1 } })).toEqual(["/$pop/tags", "/$pop/title"]);
+  });
+
+  it("validates $bit and $currentDate", () => {
+    expect(errorsOf({ $bit: { flags: { and: 5 } }, $currentDate: { updatedAt: true } })).toEqual([]);
+    expect(errorsOf({ $bit: { flags: { not: 5 }, title: { or: 1 } } })).toEqual(["/$bit/flags", "/$bit/title"]);
+    expect(errorsOf({ $currentDate: { updatedAt: { $type: "int" }, views: true } })).toEqual([
+      "/$currentDate/updatedAt",
+      "/$currentDate/views",
+    ]);
+  });
+
+  it("keeps the required fields", () => {
+    expect(errorsOf({ $unset: { title: "" }, $rename: { views: "hits" } })).toEqual(["/$unset/title", "/$rename/hits"]);
+  });
+
+  it("follows the anyOf branches of the schema", () => {
+    const post = { type: "object", properties: { title: { type: "string" } }, additionalProperties: false };
+    const link = {
+      type: "object",
+      properties: { title: { type: "string" }, url: { type: "string" } },
+      additionalProperties: false,
+    };
+    expect(validateUpdateSchema({ title: 5, evil: 1 }, { anyOf: [post] }).isValid).toBe(false);
+    expect(validateUpdateSchema({ $set: { title: "a" } }, { anyOf: [post, link] }).isValid).toBe(true);
+    expect(validateUpdateSchema({ $set: { title: 5 } }, { anyOf: [post, link] }).isValid).toBe(false);
+    // only the link branch declares the url
+    expect(validateUpdateSchema({ $set: { url: "b" } }, { anyOf: [post, link] }).isValid).toBe(true);
+    expect(validateUpdateSchema({ $set: { url: 5 } }, { anyOf: [post, link] }).isValid).toBe(false);
+    expect(validateUpdateSchema({ $set: { evil: 1 } }, { anyOf: [post, link] }).isValid).toBe(false);
+  });
+
+  it("follows the references of the schema", () => {
+    const referenced = {
+      $ref: "#/definitions/post",
+      definitions: {
+        post: {
+          type: "object",
+          required: ["title"],
+          properties: { title: { type: "string" }, price: { $ref: "#/definitions/price" } },
+          additionalProperties: false,
+        },
+        price: { type: "number", minimum: 0 },
+      },
+    };
+    const errors = (update: Record<string, any>) =>
+      (validateUpdateSchema(update, referenced).errors || []).map((error) => error.instancePath);
+    expect(errors({ $set: { price: 1 } })).toEqual([]);
+    expect(errors({ $set: { title: 5, price: -1, evil: 1 } })).toEqual(["/$set/title", "/$set/price", "/$set/evil"]);
+    expect(errors({ $unset: { title: "" } })).toEqual(["/$unset/title"]);
+  });
+});
@@ -0,0 +1,306 @@
+import type { AnySchemaObject, ErrorObject } from "ajv";
+import { get, isEmpty, isPlainObject, pick, set } from "lodash-es";
+import { getChannelContext } from "../context/ChannelContext";
+import { compileSchema } from "../schema/SchemaRegistry";
+
+/**
+ * A single change an update makes to a field. Plain fields of the update are `$set` effects.
+ */
+export type UpdateEffect = {
+  operator: string;
+  /** The affected field, may be a dot path. */
+  path: string;
+  /** The operator payload of the field, e.g. the pushed value or the increment. */
+  value: any;
+  /** The key of the effect in the update, differs from `path` for the target of a `$rename`. */
+  key: string;
+  /** True if the effect comes from a plain field instead of an operator. */
+  plain?: boolean;
+};
+
+/** Operators whose payload is the new value of the field. */
+const VALUE_OPERATORS = ["$set", "$setOnInsert"];
+/** Operators whose payload is added to an array field. */
+const ARRAY_OPERATORS = ["$push", "$addToSet"];
+/** Operators whose payload must be a number. */
+const NUMERIC_OPERATORS = ["$inc", "$mul", "$min", "$max"];
+/** Operators that remove items of an array field. */
+const REMOVE_OPERATORS = ["$pull", "$pullAll", "$pop"];
+
+/**
+ * Splits a mongo update into the per-field effects it has. A `$rename` affects both the source and the target field.
+ */
+export function normalizeUpdate(update?: Record<string, any>): UpdateEffect[] {
+  const effects: UpdateEffect[] = [];
+  if (!update) return effects;
+
+  for (const key of Object.keys(update)) {
+    if (!key.startsWith("$")) {
+      effects.push({ operator: "$set", path: key, value: update[key], key, plain: true });
+      continue;
+    }
+    const payload = update[key];
+    if (!isPlainObject(payload)) continue;
+    for (const path of Object.keys(payload)) {
+      effects.push({ operator: key, path, value: payload[path], key: path });
+      if (key === "$rename" && typeof payload[path] === "string")
+        effects.push({ operator: key, path: payload[path], value: path, key: path });
+    }
+  }
+  return effects;
+}
+
+/**
+ * Removes the effect from the update it was normalized from.
+ */
+export function removeUpdateEffect(update: Record<string, any>, effect: UpdateEffect) {
+  if (effect.plain) {
+    delete update[effect.key];
+    return;
+  }
+  const payload = update[effect.operator];
+  if (!payload) return;
+  delete payload[effect.key];
+  if (!Object.keys(payload).length) delete update[effect.operator];
+}
+
+/**
+ * The value an effect writes into the field, undefined for operators that don't write a plain value like `$inc`.
+ */
+export function getEffectValue(effect: UpdateEffect) {
+  if (VALUE_OPERATORS.includes(effect.operator)) return effect.value;
+  if (ARRAY_OPERATORS.includes(effect.operator)) return effect.value?.$each ?? effect.value;
+}
+
+/**
+ * Replaces the value the effect writes into the field, the counterpart of `getEffectValue`.
+ */
+export function setEffectValue(update: Record<string, any>, effect: UpdateEffect, value: any) {
+  const payload = effect.plain ? update : update[effect.operator];
+  if (!payload) return;
+  if (ARRAY_OPERATORS.includes(effect.operator) && payload[effect.key]?.$each) payload[effect.key].$each = value;
+  else if (VALUE_OPERATORS.includes(effect.operator) || ARRAY_OPERATORS.includes(effect.operator)) payload[effect.key] = value;
+}
+
+/** Matches the positional operators of a path segment: `$`, `$[]` and `$[<identifier>]`. */
+const POSITIONAL = /^\$(\[\w*\])?$/;
+
+export function isPositional(segment: string) {
+  return POSITIONAL.test(segment);
+}
+
+/** The keywords combining the branches of a schema. */
+const COMPOSITION_KEYWORDS = ["allOf", "anyOf", "oneOf"] as const;
+
+/**
+ * Follows the `$ref` of a schema to a definition of the root schema, e.g. `#/definitions/item`, or to a schema
+ * registered in ajv by its id.
+ */
+function resolveRef(schema: AnySchemaObject | undefined, root: AnySchemaObject): AnySchemaObject | undefined {
+  // a circular reference stops at the depth limit
+  for (let depth = 0; schema?.$ref && depth < 32; depth++) {
+    const ref: string = schema.$ref;
+    if (!ref.startsWith("#")) {
+      schema = getChannelContext().ajv.getSchema(ref)?.schema as AnySchemaObject | undefined;
+      continue;
+    }
+    const pointer = ref
+      .slice(1)
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment).replaceAll("~1", "/").replaceAll("~0", "~"));
+    schema = pointer.length ? get(root, pointer) : root;
+  }
+  return schema;
+}
+
+function isComposed(schema: AnySchemaObject) {
+  return COMPOSITION_KEYWORDS.some((keyword) => Array.isArray(schema[keyword]));
+}
+
+function subSchema(schema: AnySchemaObject | undefined, segments: string[], root: AnySchemaObject): AnySchemaObject | undefined {
+  let current = resolveRef(schema, root);
+  for (const [index, segment] of segments.entries()) {
+    if (!current) return undefined;
+    // numeric segments and the positional operators address an item of the array
+    let next: AnySchemaObject | undefined;
+    if (current.items && (/^\d+$/.test(segment) || isPositional(segment))) next = current.items;
+    else
+      next =
+        current.properties?.[segment] ?? (isPlainObject(current.additionalProperties) ? current.additionalProperties : undefined);
+    if (!next && isComposed(current)) return composedSubSchema(current, segments.slice(index), root);
+    current = resolveRef(next, root);
+  }
+  return current;
+}
+
+/**
+ * Looks the path up in the branches of a composed schema. The field schemas of `allOf` all apply, an `anyOf` or
+ * `oneOf` field needs a schema in every branch, since a branch without it accepts any value.
+ */
+function composedSubSchema(schema: AnySchemaObject, segments: string[], root: AnySchemaObject): AnySchemaObject | undefined {
+  for (const keyword of COMPOSITION_KEYWORDS) {
+    if (!Array.isArray(schema[keyword])) continue;
+    const found = (schema[keyword] as AnySchemaObject[]).map((branch) => subSchema(branch, segments, root));
+    const known = found.filter((branch): branch is AnySchemaObject => !!branch);
+    if (!known.length || (keyword !== "allOf" && known.length < found.length)) continue;
+    if (known.length === 1) return known[0];
+    // a value may match the field schema of several oneOf branches, so they are combined with anyOf
+    return keyword === "allOf" ? { allOf: known } : { anyOf: known };
+  }
+}
+
+/**
+ * Resolves the schema of a dot path inside an object schema. It follows the `$ref`s and the `allOf`, `anyOf` and
+ * `oneOf` branches of the schema.
+ * @param root The schema the `#/...` references point into, defaults to the schema.
+ */
+export function getSubSchema(schema: AnySchemaObject | undefined, path: string, root = schema): AnySchemaObject | undefined {
+  return root && subSchema(schema, path.split("."), root);
+}
+
+function schemaTypes(schema: AnySchemaObject): string[] {
+  return ([] as string[]).concat(schema.type || []);
+}
+
+/**
+ * Whether the schema accepts one of the types. A schema without a type accepts anything.
+ */
+function acceptsType(schema: AnySchemaObject, ...types: string[]) {
+  const accepted = schemaTypes(schema);
+  return !accepted.length || accepted.some((type) => types.includes(type) || (type === "integer" && types.includes("number")));
+}
+
+function isCondition(value: any) {
+  return isPlainObject(value) && Object.keys(value).some((key) => key.startsWith("$"));
+}
+
+function error(instancePath: string, keyword: string, message: string): ErrorObject {
+  return { instancePath, schemaPath: "#", keyword, params: {}, message };
+}
+
+function runValidation(schema: AnySchemaObject, data: any, instancePath: string, errors: ErrorObject[], root?: AnySchemaObject) {
+  // a field schema keeps the definitions of the root, so its local references still resolve
+  const definitions = root && schema !== root ? pick(root, ["definitions", "$defs"]) : {};
+  const validate = compileSchema(isEmpty(definitions) ? schema : { ...schema, ...definitions });
+  if (!validate(data))
+    errors.push(...(validate.errors || []).map((e) => ({ ...e, instancePath: instancePath + e.instancePath })));
+}
+
+/**
+ * Checks that a field written by an update is declared by the schema, if its parent doesn't accept other fields.
+ * @returns False if the parent schema is composed or unknown, so it can't tell whether the field is declared.
+ */
+function checkKnownField(schema: AnySchemaObject, path: string, pointer: string, operator: string, errors: ErrorObject[]) {
+  const segments = path.split(".");
+  const parent = segments.length > 1 ? getSubSchema(schema, segments.slice(0, -1).join(".")) : resolveRef(schema, schema);
+  if (!parent || isComposed(parent)) return false;
+  if (parent.additionalProperties === false)
+    errors.push(error(pointer, "additionalProperties", `${operator} can not write the unknown field ${path}`));
+  return true;
+}
+
+/**
+ * Removes the required fields of the schema and of its sub schemas, so it validates a partial document.
+ * @param keyed True for the maps of schemas by name, e.g. `properties`, where `required` is a field name.
+ */
+function partialSchema(schema: any, keyed = false): any {
+  if (Array.isArray(schema)) return schema.map((item) => partialSchema(item));
+  if (!isPlainObject(schema)) return schema;
+  const partial: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "required" && !keyed) continue;
+    partial[key] = partialSchema(value, !keyed && ["properties", "patternProperties", "definitions", "$defs"].includes(key));
+  }
+  return partial;
+}
+
+/**
+ * Validates the payload of every update operator against the schema of the field it changes. Paths may address
+ * array items by index or positional operator, e.g. `items.0.price` or `items.$.price`.
+ * - `$set`, `$setOnInsert` and plain fields are validated against the schema of their field, so a partial update
+ *   only needs the required fields of the objects it replaces.
+ * - `$push` and `$addToSet` values are validated against the item schema of the array.
+ * - `$inc`, `$mul`, `$min` and `$max` must be numbers on numeric fields, `$bit` works on integer fields.
+ * - `$pull`, `$pullAll` and `$pop` work on array fields, the pulled values are validated against the item schema.
+ * - `$currentDate` sets a date or a timestamp.
+ * - `$unset` and `$rename` can not remove a required field, and `$rename` can not create an unknown one.
+ *
+ * The values of the fields whose schema can't be resolved, e.g. a field only some `anyOf` branches declare, are
+ * set on an empty document which is validated against the schema without its required fields.
+ */
+export function validateUpdateSchema(update: Record<string, any>, schema: AnySchemaObject) {
+  const errors: ErrorObject[] = [];
+  const unresolved: UpdateEffect[] = [];
+
+  for (const effect of normalizeUpdate(update)) {
+    const pointer = `/${effect.operator}/${effect.path.replaceAll(".", "/")}`;
+    const fieldSchema = getSubSchema(schema, effect.path);
+
+    if (VALUE_OPERATORS.includes(effect.operator)) {
+      if (fieldSchema) runValidation(fieldSchema, effect.value, pointer, errors, schema);
+      else if (!checkKnownField(schema, effect.path, pointer, effect.operator, errors)) unresolved.push(effect);
+    } else if (ARRAY_OPERATORS.includes(effect.operator)) {
+      if (fieldSchema && !acceptsType(fieldSchema, "array"))
+        errors.push(error(pointer, "type", `${effect.operator} can only be used on an array field`));
+      else if (fieldSchema?.items) {
+        const items = effect.value?.$each ?? [effect.value];
+        for (const item of Array.isArray(items) ? items : [items])
+          runValidation(fieldSchema.items, item, pointer, errors, schema);
+      }
+    } else if (NUMERIC_OPERATORS.includes(effect.operator)) {
+      if (typeof effect.value !== "number") errors.push(error(pointer, "type", `${effect.operator} must be a number`));
+      if (fieldSchema && !acceptsType(fieldSchema, "number"))
+        errors.push(error(pointer, "type", `${effect.operator} can only be used on a numeric field`));
+    } else if (effect.operator === "$bit") {
+      const valid =
+        isPlainObject(effect.value) &&
+        Object.entries(effect.value).every(([op, mask]) => ["and", "or", "xor"].includes(op) && Number.isInteger(mask));
+      if (!valid) errors.push(error(pointer, "type", "$bit must be an and, or or xor with an integer"));
+      if (fieldSchema && !acceptsType(fieldSchema, "integer"))
+        errors.push(error(pointer, "type", "$bit can only be used on an integer field"));
+    } else if (REMOVE_OPERATORS.includes(effect.operator)) {
+      if (fieldSchema && !acceptsType(fieldSchema, "array"))
+        errors.push(error(pointer, "type", `${effect.operator} can only be used on an array field`));
+      if (effect.operator === "$pop" && effect.value !== 1 && effect.value !== -1)
+        errors.push(error(pointer, "enum", "$pop must be 1 or -1"));
+      if (effect.operator === "$pullAll" && !Array.isArray(effect.value))
+        errors.push(error(pointer, "type", "$pullAll must be an array"));
+      // a $pull value is a query on the items, so only its plain values are validated
+      const pulled =
+        effect.operator === "$pullAll"
+          ? effect.value
+          : effect.operator === "$pull" && !isCondition(effect.value)
+            ? [effect.value]
+            : (effect.value?.$in ?? []);
+      if (fieldSchema?.items && Array.isArray(pulled))
+        for (const item of pulled) {
+          if (effect.operator === "$pullAll" || !isPlainObject(item))
+            runValidation(fieldSchema.items, item, pointer, errors, schema);
+        }
+    } else if (effect.operator === "$currentDate") {
+      if (effect.value !== true && !(isPlainObject(effect.value) && ["date", "timestamp"].includes(effect.value.$type)))
+        errors.push(error(pointer, "type", '$currentDate must be true or a $type of "date" or "timestamp"'));
+      if (fieldSchema && !acceptsType(fieldSchema, "string", "object"))
+        errors.push(error(pointer, "type", "$currentDate can only be used on a date field"));
+      if (!fieldSchema) checkKnownField(schema, effect.path, pointer, effect.operator, errors);
+    } else if (effect.operator === "$unset" || (effect.operator === "$rename" && effect.path === effect.key)) {
+      const segments = effect.path.split(".");
+      const field = segments.pop()!;
+      const parent = segments.length ? getSubSchema(schema, segments.join(".")) : resolveRef(schema, schema);
+      if (parent?.required?.includes(field))
+        errors.push(error(pointer, "required", `${effect.operator} can not remove the required field ${effect.path}`));
+    } else if (effect.operator === "$rename") {
+      if (!fieldSchema) checkKnownField(schema, effect.path, pointer, effect.operator, errors);
+    }
+  }
+
+  if (unresolved.length) {
+    const doc = {};
+    // a positional path has no place in a document
+    for (const effect of unresolved) if (!effect.path.split(".").some(isPositional)) set(doc, effect.path, effect.value);
+    runValidation(partialSchema(schema), doc, "/$set", errors);
+  }
+
+  return { isValid: !errors.length, errors: errors.length ? errors : undefined };
+}
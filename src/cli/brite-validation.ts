@@ -0,0 +1,62 @@
+#!/usr/bin/env bun
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse } from "yaml";
+import { type PolicyProblem, validatePolicy } from "../schema/validatePolicy";
+
+const USAGE = `Usage: brite-validation lint <file...> [--base-actions Post,Comment] [--strict]
+
+Checks user levels or endpoint policies in JSON or YAML files.
+  --base-actions  The known base actions, an unknown baseAction is an error.
+  --strict        Fails on warnings too.`;
+
+async function readPolicy(file: string) {
+  const content = await readFile(file, "utf8");
+  return [".yaml", ".yml"].includes(extname(file).toLowerCase()) ? parse(content) : JSON.parse(content);
+}
+
+function format(file: string, problem: PolicyProblem) {
+  return `${file}: ${problem.severity} ${problem.path || "(root)"} ${problem.message}`;
+}
+
+/**
+ * Lints the policy files and returns the exit code: 1 if a file has errors, or warnings in strict mode.
+ */
+export async function lint(args: string[]): Promise<number> {
+  const files: string[] = [];
+  let baseActions: string[] | undefined;
+  let strict = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--base-actions") baseActions = (args[++i] || "").split(",").filter(Boolean);
+    else if (args[i] === "--strict") strict = true;
+    else files.push(args[i]);
+  }
+  if (!files.length) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let failed = false;
+  for (const file of files) {
+    let problems: PolicyProblem[];
+    try {
+      problems = validatePolicy(await readPolicy(file), { baseActions });
+    } catch (error: any) {
+      problems = [{ path: "", message: `can't be read: ${error.message}`, severity: "error" }];
+    }
+    for (const problem of problems) console.error(format(file, problem));
+    if (problems.some((problem) => problem.severity === "error" || strict)) failed = true;
+  }
+  if (!failed) console.log(`${files.length} policy file(s) checked, no errors.`);
+  return failed ? 1 : 0;
+}
+
+if (import.meta.main) {
+  const [command, ...args] = process.argv.slice(2);
+  if (command !== "lint") {
+    console.error(USAGE);
+    process.exit(2);
+  }
+  process.exit(await lint(args));
+}
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import Channel from "../channel/Channel";
+import { StorageError } from "../errors/Errors";
+import { MemoryStorageProvider } from "../storage/StorageProvider";
+import { configureChannel, resetChannel } from "./ChannelContext";
+
+class Post {}
+
+function createPost(body: any) {
+  const user: any = {
+    _id: "42",
+    type: "User",
+    level: {
+      actions: ["CreatePost"],
+      access: {
+        endpoints: { posts: { create: { baseAction: "Post", body: { uploads: [{ field: "cover", directory: "covers" }] } } } },
+      },
+    },
+  };
+  return new Channel<any>().start(Post, user, "posts.create").Create(body);
+}
+
+describe("ChannelContext", () => {
+  beforeEach(() => configureChannel({ getEntity: () => ({ type: "object" }) }));
+  afterEach(() => resetChannel());
+
+  it("logs nothing by default", async () => {
+    const info = spyOn(console, "info");
+    const log = spyOn(console, "log");
+    await createPost({ title: "Hello" }).perform();
+    expect(info).not.toHaveBeenCalled();
+    expect(log).not.toHaveBeenCalled();
+    info.mockRestore();
+    log.mockRestore();
+  });
+
+  it("rejects uploads when there is no storage", async () => {
+    await expect(createPost({ cover: "tmp/cover.png" }).perform()).rejects.toBeInstanceOf(StorageError);
+  });
+
+  it("moves uploads with the configured storage", async () => {
+    const storage = new MemoryStorageProvider();
+    storage.put("tmp/cover.png", "cover", "image/png");
+    configureChannel({ storage });
+    const { doc } = await createPost({ cover: "tmp/cover.png" }).perform<any>();
+    expect(doc.cover).toStartWith("memory://covers/");
+  });
+});
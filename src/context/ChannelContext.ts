@@ -0,0 +1,152 @@
+import type { Uploads } from "../types/level.types";
+import type { UserDocument } from "../types/user.types";
+import Ajv from "ajv";
+import ajvErrors from "ajv-errors";
+import addFormats from "ajv-formats";
+import ajvKeywords from "ajv-keywords";
+import { get } from "lodash-es";
+import type { QueryOptions } from "mongoose";
+import * as query from "../channel/query.util";
+import { StorageError } from "../errors/Errors";
+import type { StorageProvider } from "../storage/StorageProvider";
+
+export type Logger = {
+  log(level: string, ...args: any[]): void;
+  info(...args: any[]): void;
+  warn(...args: any[]): void;
+  error(...args: any[]): void;
+};
+
+/**
+ * The dependencies of the chains. Every dependency has a default implementation, so the chains work without the
+ * application they were written for, and each one can be swapped with `configureChannel`.
+ */
+export type ChannelContext = {
+  /** Compiles the schemas of the endpoints and the models. */
+  ajv: Ajv;
+  logger: Logger;
+  /**
+   * Builds an action name, e.g. `("Post", "Update")` is UpdatePost and `("Post", "Update", "Title")` is UpdatePostTitle.
+   * @param prefixAction Replaces the prefix of the chain, e.g. Change for ChangePostTitle.
+   */
+  constructAction(base: string, prefix?: string, key?: string, prefixAction?: string): string;
+  /**
+   * Whether the actions of a user level allow the action.
+   * @param value The value of the key an action of a key is checked for.
+   */
+  isActionAllowed(action: string, actions: string[], value?: any): boolean;
+  /** Merges the default filter of an endpoint into the client filter. */
+  makeQuery(filter: any, defaultFilter?: any, merge?: boolean, isPrior?: boolean): any;
+  /** Converts the read options of a client into query options. */
+  makeQueryOption(userOptions: Record<string, any>, defaultOptions?: QueryOptions): QueryOptions;
+  /**
+   * Stores the uploaded files. The chains validate the files against the constraints of their upload and move them
+   * back if a later step fails; without a provider they are moved by `moveFieldsFile`.
+   */
+  storage?: StorageProvider;
+  /**
+   * Moves the uploaded files of the fields of the data into their directories. It is only used without a `storage`,
+   * the default implementation throws a StorageError.
+   * @returns The new values of the moved fields, e.g. their final urls.
+   */
+  moveFieldsFile(uploads: Uploads[], data: any): Promise<Record<string, any>>;
+  /** Reads a metadata of a model, e.g. its `docs:model` schema or its `docs:private` fields. */
+  getEntity(model: Function, key: string): any;
+  /** Whether the user is an anonymous visitor. */
+  isVisitor(user?: UserDocument): boolean;
+};
+
+/**
+ * Creates an ajv instance with the formats, keywords and errors plugins.
+ */
+export function createAjv() {
+  const instance = new Ajv({ allErrors: true, strict: false });
+  addFormats(instance);
+  ajvKeywords(instance);
+  ajvErrors(instance);
+  return instance;
+}
+
+/**
+ * The chains log the filters and documents of the requests, so nothing is logged unless a logger is configured.
+ */
+const silentLogger: Logger = {
+  log: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+const defaults: Omit<ChannelContext, "ajv"> = {
+  logger: silentLogger,
+  constructAction: (base, prefix, key, prefixAction) => `${prefixAction || prefix || ""}${base}${key || ""}`,
+  isActionAllowed: (action, actions) => actions.includes(action),
+  makeQuery: query.makeQuery,
+  makeQueryOption: query.makeQueryOption,
+  // the fields would keep the temporary keys of the client if the files were not moved
+  moveFieldsFile: async (uploads, data) => {
+    const fields = uploads.map((upload) => upload.field).filter((field) => get(data, field) != null);
+    if (!fields.length) return {};
+    throw new StorageError(
+      `The fields ${fields.join(", ")} have uploads but the channel has no storage, ` +
+        "configure one with `configureChannel({ storage })` or `moveFieldsFile`."
+    );
+  },
+  getEntity: (model, key) => (Reflect as any).getMetadata?.(key, model),
+  isVisitor: (user) => String(user?.type).toLowerCase() === "visitor",
+};
+
+let context: Omit<ChannelContext, "ajv"> & { ajv?: Ajv } = { ...defaults };
+
+/**
+ * Replaces dependencies of the chains, e.g. `configureChannel({ logger, getEntity })`. It should run at boot, before
+ * any schema is compiled.
+ */
+export function configureChannel(overrides: Partial<ChannelContext>) {
+  context = { ...context, ...overrides };
+}
+
+/**
+ * Restores the default implementations of every dependency.
+ */
+export function resetChannel() {
+  context = { ...defaults };
+}
+
+export function getChannelContext(): ChannelContext {
+  // the default ajv instance is only created if it is used
+  context.ajv ??= createAjv();
+  return context as ChannelContext;
+}
+
+/** Logs with the logger of the context. */
+export const logger: Logger = {
+  log: (level, ...args) => getChannelContext().logger.log(level, ...args),
+  info: (...args) => getChannelContext().logger.info(...args),
+  warn: (...args) => getChannelContext().logger.warn(...args),
+  error: (...args) => getChannelContext().logger.error(...args),
+};
+
+export function constructAction(base: string, prefix?: string, key?: string, prefixAction?: string) {
+  return getChannelContext().constructAction(base, prefix, key, prefixAction);
+}
+
+export function isActionAllowed(action: string, actions: string[], value?: any) {
+  return getChannelContext().isActionAllowed(action, actions, value);
+}
+
+export function makeQuery(filter: any, defaultFilter?: any, merge?: boolean, isPrior?: boolean) {
+  return getChannelContext().makeQuery(filter, defaultFilter, merge, isPrior);
+}
+
+export function makeQueryOption(userOptions: Record<string, any>, defaultOptions?: QueryOptions) {
+  return getChannelContext().makeQueryOption(userOptions, defaultOptions);
+}
+
+export function moveFieldsFile(uploads: Uploads[], data: any) {
+  return getChannelContext().moveFieldsFile(uploads, data);
+}
+
+export function getEntity(model: Function, key: string) {
+  return getChannelContext().getEntity(model, key);
+}
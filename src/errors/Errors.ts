@@ -7,6 +7,30 @@ export class BodyError extends Error {
 export class QueryError extends Error {
   constructor(message: string) {
     super(message);
-    this.name = "BodyError";
+    this.name = "QueryError";
+  }
+}
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+export class LevelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LevelError";
+  }
+}
+export class ChainAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChainAssertionError";
+  }
+}
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageError";
   }
 }
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "bun:test";
+import Ajv from "ajv";
+import { ErrorCode, registerMessages, resolveLocale } from "./messages";
+import { ActionDeniedError, PROBLEM_CONTENT_TYPE, mapAjvErrors, toProblemDetails, toProblemResponse } from "./ProblemError";
+
+describe("problem details", () => {
+  it("maps the ajv errors to the missing and extra properties", () => {
+    const validate = new Ajv({ allErrors: true, strict: false }).compile({
+      type: "object",
+      properties: { profile: { type: "object", required: ["email"], additionalProperties: false } },
+    });
+    validate({ profile: { phone: "1" } });
+    expect(mapAjvErrors(validate.errors).map(({ pointer, field, keyword }) => ({ pointer, field, keyword }))).toEqual([
+      { pointer: "/profile/email", field: "profile.email", keyword: "required" },
+      { pointer: "/profile/phone", field: "profile.phone", keyword: "additionalProperties" },
+    ]);
+  });
+
+  it("serializes a denial in the locale of the request", () => {
+    registerMessages("fa", { [ErrorCode.ActionDenied]: { title: "اجازه نیست", detail: "{action}" } });
+    const error = new ActionDeniedError("CreatePost");
+    expect(toProblemResponse(error, { instance: "/posts" })).toEqual({
+      status: 403,
+      headers: { "Content-Type": PROBLEM_CONTENT_TYPE },
+      body: {
+        type: "about:blank",
+        title: "Action Denied",
+        status: 403,
+        detail: "You are not allowed to perform CreatePost.",
+        code: ErrorCode.ActionDenied,
+        instance: "/posts",
+      },
+    });
+    expect(toProblemDetails(error, { locale: resolveLocale("fa-AF;q=0.8, de;q=0.9") })).toMatchObject({
+      title: "اجازه نیست",
+      detail: "CreatePost",
+    });
+  });
+
+  it("doesn't leak the message of an unexpected error", () => {
+    expect(toProblemDetails(new Error("connection string"), { typeBase: "https://errors" })).toEqual({
+      type: "https://errors/internal",
+      title: "Internal Error",
+      status: 500,
+      detail: "Something went wrong, please try again later.",
+      code: ErrorCode.Internal,
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { StatusError } from "./StatusError";
+import type { ErrorObject } from "ajv";
+import { type RateLimitInfo, rateLimitHeaders } from "../rate-limit/RateLimiter";
+import { DEFAULT_LOCALE, ErrorCode, type ProblemMessage, translate } from "./messages";
+
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+/**
+ * A field level error, e.g. a single ajv error of the body.
+ */
+export type ProblemField = {
+  /** JSON pointer of the field, e.g. /profile/email. */
+  pointer: string;
+  /** Dot path of the field, e.g. profile.email. */
+  field: string;
+  keyword?: string;
+  message?: string;
+  params?: Record<string, any>;
+};
+
+/**
+ * The RFC 7807 body of an error.
+ */
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  code: string;
+  instance?: string;
+  errors?: ProblemField[];
+  [extension: string]: any;
+};
+
+export type ProblemOptions = {
+  locale?: string;
+  /** The request path, reported as `instance`. */
+  instance?: string;
+  /** Base URI of the error documentation, the type becomes `<typeBase>/<code>`. Defaults to about:blank. */
+  typeBase?: string;
+};
+
+/**
+ * Converts ajv errors into field errors with JSON pointers. `required` and `additionalProperties` errors point to
+ * the missing or extra property instead of its parent.
+ */
+export function mapAjvErrors(errors?: ErrorObject[] | null): ProblemField[] {
+  return (errors || []).map((error) => {
+    let pointer = error.instancePath;
+    if (error.keyword === "required") pointer += `/${error.params.missingProperty}`;
+    if (error.keyword === "additionalProperties") pointer += `/${error.params.additionalProperty}`;
+    return {
+      pointer: pointer || "/",
+      field: pointer.split("/").filter(Boolean).join("."),
+      keyword: error.keyword,
+      message: error.message,
+      params: error.params,
+    };
+  });
+}
+
+/**
+ * The base of the errors thrown by the chains. It is a StatusError, so the existing error handling keeps working,
+ * with a stable code, the params of its message and the field errors.
+ */
+export class ProblemError extends StatusError {
+  code: string;
+  status: number;
+  params: Record<string, any>;
+  fields: ProblemField[];
+  /** A title or detail configured on the endpoint, used instead of the catalog message. */
+  override?: Partial<ProblemMessage>;
+
+  constructor(
+    code: string,
+    status: number,
+    params: Record<string, any> = {},
+    fields: ProblemField[] = [],
+    override?: Partial<ProblemMessage>,
+    errors?: any
+  ) {
+    const message = translate(code, DEFAULT_LOCALE, params);
+    super(status, override?.title || message.title, override?.detail || message.detail, errors);
+    this.name = "ProblemError";
+    this.code = code;
+    this.status = status;
+    this.params = params;
+    this.fields = fields;
+    this.override = override;
+  }
+}
+
+export class RateLimitedError extends ProblemError {
+  constructor(public info?: RateLimitInfo) {
+    super(ErrorCode.RateLimited, 429, { retryAfter: info?.retryAfter ?? info?.reset });
+  }
+}
+
+export class UnauthenticatedError extends ProblemError {
+  constructor() {
+    super(ErrorCode.Unauthenticated, 401);
+  }
+}
+
+export class AccountDeniedError extends ProblemError {
+  constructor(userType?: string) {
+    super(ErrorCode.AccountDenied, 403, { userType });
+  }
+}
+
+export class ActionDeniedError extends ProblemError {
+  constructor(action: string) {
+    super(ErrorCode.ActionDenied, 403, { action });
+  }
+}
+
+export class KeyDeniedError extends ProblemError {
+  constructor(key: string, action: string) {
+    super(ErrorCode.KeyDenied, 403, { key, action }, [{ pointer: `/${key.replaceAll(".", "/")}`, field: key }]);
+  }
+}
+
+export class OperatorDeniedError extends ProblemError {
+  constructor(operators: string[]) {
+    super(ErrorCode.OperatorDenied, 403, { operators: operators.join(", ") });
+  }
+}
+
+export class PredicateFailedError extends ProblemError {
+  constructor(detail?: string) {
+    super(ErrorCode.PredicateFailed, 403, {}, [], detail ? { detail } : undefined);
+  }
+}
+
+export class SchemaViolationError extends ProblemError {
+  /**
+   * @param target What violates the schema: body, query or data.
+   */
+  constructor(target: string, errors?: ErrorObject[] | null, override?: Partial<ProblemMessage>) {
+    super(ErrorCode.SchemaViolation, 403, { target }, mapAjvErrors(errors), override, errors);
+  }
+}
+
+export class QueryRestrictedError extends ProblemError {
+  /**
+   * @param location Where in the filter the violation is, e.g. $or[0].name.
+   */
+  constructor(reason: string, location?: string) {
+    const fields = location
+      ? [{ pointer: `/${location.replace(/\[(\d+)\]/g, ".$1").replaceAll(".", "/")}`, field: location }]
+      : [];
+    super(ErrorCode.QueryRestricted, 403, { reason: location ? `${reason} (at ${location})` : reason }, fields);
+  }
+}
+
+export class PrivateFieldError extends ProblemError {
+  constructor(field: string) {
+    super(ErrorCode.PrivateField, 403, { field }, [{ pointer: `/${field.replaceAll(".", "/")}`, field }]);
+  }
+}
+
+export class PatchInvalidError extends ProblemError {
+  constructor(reason: string) {
+    super(ErrorCode.PatchInvalid, 400, { reason });
+  }
+}
+
+export class ConditionFailedError extends ProblemError {
+  constructor(action?: string) {
+    super(ErrorCode.ConditionFailed, 403, { action });
+  }
+}
+
+export class TenantRequiredError extends ProblemError {
+  constructor() {
+    super(ErrorCode.TenantRequired, 403);
+  }
+}
+
+export class UploadRejectedError extends ProblemError {
+  constructor(field: string, reason: string) {
+    super(ErrorCode.UploadRejected, 422, { field, reason }, [{ pointer: `/${field.replaceAll(".", "/")}`, field }]);
+  }
+}
+
+export class HookRejectedError extends ProblemError {
+  constructor(phase: string) {
+    super(ErrorCode.HookRejected, 403, { phase });
+  }
+}
+
+export class CursorInvalidError extends ProblemError {
+  constructor(reason = "The cursor is invalid or has expired, start again from the first page.") {
+    super(ErrorCode.CursorInvalid, 400, { reason });
+  }
+}
+
+export class BodyInvalidError extends ProblemError {
+  constructor(reason: string) {
+    super(ErrorCode.BodyInvalid, 400, { reason });
+  }
+}
+
+export class BatchTooLargeError extends ProblemError {
+  constructor(count: number, max: number) {
+    super(ErrorCode.BatchTooLarge, 413, { count, max });
+  }
+}
+
+export class BatchRejectedError extends ProblemError {
+  /**
+   * @param items The index and the error of every rejected item.
+   */
+  constructor(public items: { index: number; error: ProblemDetails }[]) {
+    super(ErrorCode.BatchRejected, 422, { count: items.length });
+  }
+}
+
+/**
+ * Serializes any error into an RFC 7807 problem details object, translated into the locale.
+ */
+export function toProblemDetails(error: any, options?: ProblemOptions): ProblemDetails {
+  const code: string = error instanceof ProblemError ? error.code : ErrorCode.Internal;
+  const status: number = error?.status ?? 500;
+  let title: string = error?.title ?? "Internal Error";
+  let detail: string = error?.message ?? "";
+
+  if (error instanceof ProblemError) {
+    const message = translate(code, options?.locale, error.params);
+    title = error.override?.title || message.title;
+    detail = error.override?.detail || message.detail;
+  } else if (status >= 500) {
+    // never leak the internals of unexpected errors
+    ({ title, detail } = translate(ErrorCode.Internal, options?.locale));
+  }
+
+  const problem: ProblemDetails = {
+    type: options?.typeBase ? `${options.typeBase}/${code.toLowerCase()}` : "about:blank",
+    title,
+    status,
+    detail,
+    code,
+  };
+  if (options?.instance) problem.instance = options.instance;
+  if (error instanceof ProblemError && error.fields.length) problem.errors = error.fields;
+  if (error instanceof RateLimitedError && error.info) problem.retryAfter = error.info.retryAfter;
+  if (error instanceof BatchRejectedError) problem.items = error.items;
+  return problem;
+}
+
+/**
+ * Builds the status, headers and body of an `application/problem+json` response.
+ */
+export function toProblemResponse(error: any, options?: ProblemOptions) {
+  const body = toProblemDetails(error, options);
+  const headers: Record<string, string> = { "Content-Type": PROBLEM_CONTENT_TYPE };
+  if (error instanceof RateLimitedError) Object.assign(headers, rateLimitHeaders(error.info));
+  return { status: body.status, headers, body };
+}
@@ -0,0 +1,16 @@
+/**
+ * An error with the HTTP status of the response, e.g. 403 for a denied request.
+ */
+export class StatusError extends Error {
+  status: number;
+  title: string;
+  errors?: any;
+
+  constructor(status: number, title: string, message: string, errors?: any) {
+    super(message);
+    this.name = "StatusError";
+    this.status = status;
+    this.title = title;
+    this.errors = errors;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Stable, machine-readable codes of the errors thrown by the chains.
+ */
+export enum ErrorCode {
+  RateLimited = "RATE_LIMITED",
+  Unauthenticated = "UNAUTHENTICATED",
+  AccountDenied = "ACCOUNT_DENIED",
+  ActionDenied = "ACTION_DENIED",
+  KeyDenied = "KEY_DENIED",
+  OperatorDenied = "OPERATOR_DENIED",
+  PredicateFailed = "PREDICATE_FAILED",
+  SchemaViolation = "SCHEMA_VIOLATION",
+  QueryRestricted = "QUERY_RESTRICTED",
+  PrivateField = "PRIVATE_FIELD",
+  PatchInvalid = "PATCH_INVALID",
+  BatchTooLarge = "BATCH_TOO_LARGE",
+  BatchRejected = "BATCH_REJECTED",
+  ConditionFailed = "CONDITION_FAILED",
+  TenantRequired = "TENANT_REQUIRED",
+  UploadRejected = "UPLOAD_REJECTED",
+  HookRejected = "HOOK_REJECTED",
+  CursorInvalid = "CURSOR_INVALID",
+  BodyInvalid = "BODY_INVALID",
+  Internal = "INTERNAL",
+}
+
+export type ProblemMessage = {
+  title: string;
+  detail: string;
+};
+
+export const DEFAULT_LOCALE = "en";
+
+/**
+ * The messages of a locale. `{name}` in a message is replaced by the param of the same name.
+ */
+export type MessageCatalog = Partial<Record<ErrorCode | string, ProblemMessage>>;
+
+const catalogs: Record<string, MessageCatalog> = {
+  [DEFAULT_LOCALE]: {
+    [ErrorCode.RateLimited]: {
+      title: "Too Many Requests",
+      detail: "You have exceeded the number of requests at this endpoint. Try again in {retryAfter} seconds.",
+    },
+    [ErrorCode.Unauthenticated]: { title: "Unauthorized", detail: "You need to login to access this service." },
+    [ErrorCode.AccountDenied]: {
+      title: "Invalid Account",
+      detail: "Sorry, your account is not able to perform this action.",
+    },
+    [ErrorCode.ActionDenied]: { title: "Action Denied", detail: "You are not allowed to perform {action}." },
+    [ErrorCode.KeyDenied]: { title: "Field Denied", detail: "You are not allowed to send the field {key}." },
+    [ErrorCode.OperatorDenied]: {
+      title: "Restricted Body",
+      detail: "The update operator {operators} is not allowed at this endpoint.",
+    },
+    [ErrorCode.PredicateFailed]: {
+      title: "Predicate Not Succeeded",
+      detail: "You are not allowed to process further, because the provided predicate mismatches.",
+    },
+    [ErrorCode.SchemaViolation]: {
+      title: "Restricted Data",
+      detail: "The {target} you provided violates some of our policies. Check it or consult support.",
+    },
+    [ErrorCode.QueryRestricted]: { title: "Restricted Query", detail: "{reason}" },
+    [ErrorCode.PrivateField]: { title: "Restricted Field", detail: "You are not allowed to access the private field {field}." },
+    [ErrorCode.PatchInvalid]: { title: "Invalid Patch", detail: "{reason}" },
+    [ErrorCode.BatchTooLarge]: {
+      title: "Batch Too Large",
+      detail: "The batch has {count} items but the endpoint accepts at most {max}.",
+    },
+    [ErrorCode.BatchRejected]: {
+      title: "Batch Rejected",
+      detail: "{count} items of the batch were rejected, so none of them was accepted.",
+    },
+    [ErrorCode.ConditionFailed]: {
+      title: "Condition Failed",
+      detail: "The document doesn't meet the conditions of your action {action}.",
+    },
+    [ErrorCode.TenantRequired]: {
+      title: "Missing Tenant",
+      detail: "Your request doesn't belong to an organization, so it can't access this resource.",
+    },
+    [ErrorCode.UploadRejected]: { title: "Invalid Upload", detail: "The file of {field} was rejected: {reason}." },
+    [ErrorCode.HookRejected]: {
+      title: "Request Rejected",
+      detail: "The request was rejected by the {phase} hook of the endpoint.",
+    },
+    [ErrorCode.CursorInvalid]: { title: "Invalid Cursor", detail: "{reason}" },
+    [ErrorCode.BodyInvalid]: { title: "Invalid Body", detail: "{reason}" },
+    [ErrorCode.Internal]: { title: "Internal Error", detail: "Something went wrong, please try again later." },
+  },
+};
+
+/**
+ * Adds or overrides the messages of a locale, e.g. `registerMessages("prs", { ACTION_DENIED: {...} })` for Dari.
+ */
+export function registerMessages(locale: string, messages: MessageCatalog) {
+  catalogs[locale] = { ...catalogs[locale], ...messages };
+}
+
+function interpolate(text: string, params?: Record<string, any>) {
+  return text.replace(/\{(\w+)\}/g, (match, name) => (params?.[name] !== undefined ? String(params[name]) : match));
+}
+
+/**
+ * Returns the message of the code in the locale, falling back to the base language (`fa` for `fa-AF`) and then English.
+ */
+export function translate(code: string, locale: string = DEFAULT_LOCALE, params?: Record<string, any>): ProblemMessage {
+  const message =
+    catalogs[locale]?.[code] ||
+    catalogs[locale.split("-")[0]]?.[code] ||
+    catalogs[DEFAULT_LOCALE][code] ||
+    catalogs[DEFAULT_LOCALE][ErrorCode.Internal]!;
+  return { title: interpolate(message.title, params), detail: interpolate(message.detail, params) };
+}
+
+/**
+ * Picks the best registered locale of an `Accept-Language` header.
+ */
+export function resolveLocale(acceptLanguage?: string): string {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+  const locales = acceptLanguage
+    .split(",")
+    .map((part) => {
+      const [tag, q] = part.trim().split(";q=");
+      return { tag, q: q ? Number(q) : 1 };
+    })
+    .sort((a, b) => b.q - a.q);
+  for (const { tag } of locales) {
+    if (catalogs[tag]) return tag;
+    if (catalogs[tag.split("-")[0]]) return tag.split("-")[0];
+  }
+  return DEFAULT_LOCALE;
+}
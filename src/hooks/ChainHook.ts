@@ -0,0 +1,45 @@
+import type { UserDocument } from "../types/user.types";
+import type { MaybePromise } from "../types/util.types";
+import type { EndpointPolicy } from "../channel/endpoint.types";
+
+/**
+ * What a hook receives. The values of `data` are the ones of the chain, e.g. `doc` for a create or `filter` and
+ * `update` for an update; a hook can change them in place or replace them.
+ */
+export type HookContext = {
+  path: string;
+  user: UserDocument;
+  endpoint?: EndpointPolicy;
+  baseAction?: string;
+  /** The action of the chain, e.g. CreatePost. */
+  action?: string;
+  params?: Record<string, any>;
+  /** In dry-run mode a hook should have no side effects. */
+  dryRun: boolean;
+  data: Record<string, any>;
+};
+
+export type ChainHooks = {
+  /** Runs before the body and query checks of the endpoint. Returning false rejects the request. */
+  beforeValidate: (ctx: HookContext) => MaybePromise<void | boolean>;
+  /** Runs once every check passed. Returning false rejects the request. */
+  afterValidate: (ctx: HookContext) => MaybePromise<void | boolean>;
+  /** Runs on the result of `perform`. A returned value replaces the result. */
+  transformResult: (ctx: HookContext & { result: any }) => MaybePromise<any>;
+  /** Runs when `perform` throws. A returned value is the result instead, otherwise the error is thrown. */
+  onError: (ctx: HookContext & { error: any }) => MaybePromise<any>;
+};
+
+export type HookPhase = keyof ChainHooks;
+
+/**
+ * Which chains a hook runs for. A hook without a path or base action runs for every chain.
+ */
+export type HookScope = {
+  /** The path of the endpoint, e.g. posts.create. */
+  path?: string;
+  /** The base action of the chain, e.g. Post. */
+  baseAction?: string;
+  /** The hooks of a phase run from the lowest order, then in the order they were registered. Defaults to 0. */
+  order?: number;
+};
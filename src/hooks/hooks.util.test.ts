@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import Channel from "../channel/Channel";
+import { configureChannel, resetChannel } from "../context/ChannelContext";
+import { ErrorCode } from "../errors/messages";
+import { aLevel, aUser, anEndpoint, expectChain } from "../testing";
+import { clearHooks, getHooks, registerHook } from "./hooks.util";
+
+class Post {}
+
+function createPost(body: any, ...actions: string[]) {
+  const level = aLevel()
+    .allow(...actions)
+    .endpoint("posts.create", anEndpoint("Post"));
+  return Channel.fromRequest({ method: "POST", body, user: aUser().level(level).build(), endpointKey: "posts.create" }, Post);
+}
+
+describe("hooks", () => {
+  beforeEach(() => configureChannel({ getEntity: (_, key) => (key === "docs:model" ? { type: "object" } : undefined) }));
+  afterEach(() => {
+    clearHooks();
+    resetChannel();
+  });
+
+  it("runs the hooks of the scope by their order", () => {
+    const first = () => {};
+    const second = () => {};
+    registerHook("beforeValidate", second, { order: 1 });
+    registerHook("beforeValidate", first, { baseAction: "Post" });
+    registerHook("beforeValidate", () => {}, { path: "comments.create" });
+    expect(getHooks("beforeValidate", "posts.create", "Post")).toEqual([first, second]);
+  });
+
+  it("lets the hooks change the data and the result of an allowed request", async () => {
+    registerHook("beforeValidate", ({ data }) => {
+      data.doc = { ...data.doc, title: data.doc.title.trim() };
+    });
+    registerHook("transformResult", ({ result }) => ({ ...result, transformed: true }));
+    const result: any = await createPost({ title: " a " }, "CreatePost").perform();
+    expect(result.doc).toEqual({ title: "a" });
+    expect(result.transformed).toBe(true);
+  });
+
+  it("rejects the request when a hook returns false", async () => {
+    registerHook("afterValidate", ({ data }) => data.doc.title !== "spam");
+    await expectChain(() => createPost({ title: "spam" }, "CreatePost"))
+      .toDeny()
+      .withStatus(403)
+      .withCode(ErrorCode.HookRejected);
+  });
+
+  it("lets the onError hooks recover from a denial", async () => {
+    registerHook("afterValidate", () => false);
+    registerHook("onError", ({ error }) => ({ recovered: error.code }));
+    const result: any = await createPost({ title: "a" }, "CreatePost").perform();
+    expect(result).toEqual({ recovered: ErrorCode.HookRejected });
+  });
+});
@@ -0,0 +1,41 @@
+import type { ChainHooks, HookPhase, HookScope } from "./ChainHook";
+
+type RegisteredHook = {
+  phase: HookPhase;
+  handler: ChainHooks[HookPhase];
+  scope: HookScope;
+};
+
+const hooks: RegisteredHook[] = [];
+
+/**
+ * Registers a hook of a phase, e.g. `registerHook("beforeValidate", stripHtml, { baseAction: "Post" })`.
+ * @returns A function removing the hook.
+ */
+export function registerHook<P extends HookPhase>(phase: P, handler: ChainHooks[P], scope: HookScope = {}) {
+  const hook: RegisteredHook = { phase, handler, scope };
+  hooks.push(hook);
+  return () => {
+    const index = hooks.indexOf(hook);
+    if (index > -1) hooks.splice(index, 1);
+  };
+}
+
+export function clearHooks() {
+  hooks.length = 0;
+}
+
+/**
+ * @returns The hooks of the phase that apply to the endpoint and base action, in the order they run.
+ */
+export function getHooks<P extends HookPhase>(phase: P, path: string, baseAction?: string): ChainHooks[P][] {
+  return hooks
+    .filter((hook) => hook.phase === phase)
+    .filter(
+      ({ scope }) =>
+        (scope.path === undefined || scope.path === path) && (scope.baseAction === undefined || scope.baseAction === baseAction)
+    )
+    .map((hook, index) => ({ hook, index }))
+    .sort((a, b) => (a.hook.scope.order ?? 0) - (b.hook.scope.order ?? 0) || a.index - b.index)
+    .map(({ hook }) => hook.handler as ChainHooks[P]);
+}
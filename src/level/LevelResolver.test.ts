@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import Channel from "../channel/Channel";
+import { LevelError } from "../errors/Errors";
+import { LevelResolver, levelResolver } from "./LevelResolver";
+
+class Post {}
+
+function level(name: string | undefined, actions: string[], parents?: string[], endpoints: Record<string, any> = {}): any {
+  return { name, extends: parents, actions, access: { endpoints } };
+}
+
+describe("LevelResolver", () => {
+  afterEach(() => levelResolver.invalidate());
+
+  it("merges the parents and lets the level deny their actions", () => {
+    const resolver = new LevelResolver();
+    resolver.register(
+      level("editor", ["ReadPost", "UpdatePost"], undefined, { posts: { read: { query: { deniedKeys: ["a"] } } } })
+    );
+    const effective = resolver.inspect(
+      level("junior", ["!UpdatePost"], ["editor"], { posts: { read: { query: { deniedKeys: ["b"] } } } })
+    );
+    expect(effective.actions).toEqual(["ReadPost"]);
+    expect(effective.deniedActions).toEqual(["UpdatePost"]);
+    expect((effective.access?.endpoints as any).posts.read.query.deniedKeys).toEqual(["a", "b"]);
+    expect(() => resolver.inspect(level("orphan", [], ["missing"]))).toThrow(LevelError);
+  });
+
+  it("doesn't share the cache between unnamed or edited levels", () => {
+    const resolver = new LevelResolver();
+    resolver.register(level("base", ["ReadPost"]));
+    const first = level(undefined, ["CreatePost"], ["base"]);
+    const second = level(undefined, ["DeletePost"], ["base"]);
+    expect(resolver.inspect(first).actions).toEqual(["ReadPost", "CreatePost"]);
+    expect(resolver.inspect(second).actions).toEqual(["ReadPost", "DeletePost"]);
+
+    first.actions.push("UpdatePost");
+    expect(resolver.inspect(first).actions).toEqual(["ReadPost", "CreatePost", "UpdatePost"]);
+  });
+
+  it("keeps the defaults of a request off the cached level", async () => {
+    levelResolver.register(level("writer", ["CreatePost"]));
+    const schemas = { anyOf: [{ required: ["title"] }, { required: ["link"] }] };
+    const body = { useDefaultSchema: false, schemas, default: [{ kind: "text" }, { kind: "link" }] };
+    const writer = level(undefined, [], ["writer"], { posts: { create: { baseAction: "Post", body } } });
+    const create = async (doc: any) => {
+      const user: any = { _id: "42", type: "User", level: writer };
+      return ((await new Channel<any>().start(Post, user, "posts.create").Create(doc).perform()) as any).doc;
+    };
+
+    expect(await create({ title: "a" })).toEqual({ title: "a", kind: "text" });
+    expect(await create({ link: "b" })).toEqual({ link: "b", kind: "link" });
+    expect((levelResolver.inspect(writer).access?.endpoints as any).posts.create.body.default).toHaveLength(2);
+  });
+});
@@ -0,0 +1,193 @@
+import type { IUserLevel } from "../types/level.types";
+import { cloneDeep, isPlainObject, union } from "lodash-es";
+import { LevelError } from "../errors/Errors";
+import { hashSchema } from "../schema/SchemaRegistry";
+
+export type LevelInheritance = {
+  name?: string;
+  /** The names or ids of the parent levels. They are merged in order, then the level itself overrides them. */
+  extends?: string[];
+};
+
+export type InheritableLevel = IUserLevel & LevelInheritance;
+
+/**
+ * Where each effective rule came from, by level name.
+ */
+export type PolicyOrigins = {
+  /** The level granting each action. */
+  actions: Record<string, string>;
+  /** The level denying each action with `!Action`. */
+  deniedActions: Record<string, string>;
+  /** The levels that set each rule of the endpoints, keyed by its path, e.g. posts.query.deniedKeys. */
+  endpoints: Record<string, string[]>;
+};
+
+export type EffectiveLevel = IUserLevel & {
+  /** The actions denied by the level or one of its parents. A denial overrides every grant. */
+  deniedActions: string[];
+  /** The names of the merged levels, parents first. */
+  lineage: string[];
+  origins: PolicyOrigins;
+};
+
+/**
+ * The lists that are unioned with the lists of the parents instead of replacing them. The lists inside
+ * `deniedKeysValue` are unioned too.
+ */
+export const UNION_KEYS = ["deniedKeys", "deniedOps", "forbiddenOperators", "fields"];
+
+const NEGATION = "!";
+
+/** The most effective levels the resolver caches, the oldest ones are dropped first. */
+const MAX_CACHED_LEVELS = 1000;
+
+function levelName(level: InheritableLevel): string {
+  return level.name ?? (level as any)._id?.toString() ?? "anonymous";
+}
+
+function toPlain(level: any): InheritableLevel {
+  return typeof level?.toObject === "function" ? level.toObject() : level;
+}
+
+function actionName(entry: string) {
+  return entry.split(/\s+when\s+/)[0].trim();
+}
+
+/**
+ * Deep merges the rules of a level into the rules of its parents. Objects are merged, the values of the level
+ * replace the values of the parents, except the lists of `UNION_KEYS` which are unioned.
+ */
+function mergeRules(
+  target: Record<string, any>,
+  source: Record<string, any>,
+  level: string,
+  origins: Record<string, string[]>,
+  path = "",
+  unionLists = false
+) {
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    const current = path ? `${path}.${key}` : key;
+    const unionKey = unionLists || UNION_KEYS.includes(key) || key === "deniedKeysValue";
+
+    if (isPlainObject(value)) {
+      if (!isPlainObject(target[key])) {
+        target[key] = {};
+        clearOrigins(origins, current);
+      }
+      mergeRules(target[key], value, level, origins, current, unionKey);
+    } else if (Array.isArray(value) && unionKey && Array.isArray(target[key])) {
+      target[key] = union(target[key], value);
+      origins[current] = union(origins[current], [level]);
+    } else {
+      target[key] = cloneDeep(value);
+      clearOrigins(origins, current);
+      origins[current] = [level];
+    }
+  }
+}
+
+function clearOrigins(origins: Record<string, string[]>, path: string) {
+  for (const key of Object.keys(origins)) if (key === path || key.startsWith(`${path}.`)) delete origins[key];
+}
+
+/**
+ * Resolves the effective policy of user levels extending other levels. The parent levels are registered once, e.g.
+ * at boot, and the effective policies are cached by the content of their level until a level is registered or the
+ * cache is invalidated, so an edited level is merged again.
+ */
+export class LevelResolver {
+  private levels = new Map<string, InheritableLevel>();
+  private cache = new Map<string, EffectiveLevel>();
+
+  /**
+   * Registers levels that other levels can extend, by their name and their id.
+   */
+  register(...levels: InheritableLevel[]) {
+    for (const level of levels.map(toPlain)) {
+      this.levels.set(levelName(level), level);
+      if ((level as any)._id) this.levels.set((level as any)._id.toString(), level);
+    }
+    this.cache.clear();
+  }
+
+  invalidate() {
+    this.cache.clear();
+  }
+
+  /**
+   * @returns The level as the chains read it. A level without parents or negative actions is returned as it is.
+   */
+  resolve(level?: InheritableLevel): IUserLevel | undefined {
+    if (!level) return level;
+    const plain = toPlain(level);
+    if (!plain.extends?.length && !plain.actions?.some((action) => action.startsWith(NEGATION))) return level;
+    return this.inspect(plain);
+  }
+
+  /**
+   * Merges the level with its parents and reports where each rule came from.
+   * @throws {LevelError} If a parent is not registered or the levels extend each other in a cycle.
+   */
+  inspect(level: InheritableLevel): EffectiveLevel {
+    level = toPlain(level);
+    const key = `${levelName(level)}:${hashSchema(level)}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const lineage = this.linearize(level);
+    const origins: PolicyOrigins = { actions: {}, deniedActions: {}, endpoints: {} };
+    const endpoints: Record<string, any> = {};
+    const granted: string[] = [];
+
+    for (const current of lineage) {
+      const name = levelName(current);
+      mergeRules(endpoints, current.access?.endpoints || {}, name, origins.endpoints);
+      for (const entry of current.actions || []) {
+        if (entry.startsWith(NEGATION)) origins.deniedActions[actionName(entry.slice(NEGATION.length))] = name;
+        else {
+          granted.push(entry);
+          origins.actions[actionName(entry)] = name;
+        }
+      }
+    }
+
+    const deniedActions = Object.keys(origins.deniedActions);
+    for (const action of deniedActions) delete origins.actions[action];
+
+    const effective: EffectiveLevel = {
+      ...level,
+      access: { ...level.access, endpoints } as IUserLevel["access"],
+      actions: [...new Set(granted)].filter((entry) => !deniedActions.includes(actionName(entry))),
+      deniedActions,
+      lineage: lineage.map(levelName),
+      origins,
+    };
+    if (this.cache.size >= MAX_CACHED_LEVELS) this.cache.delete(this.cache.keys().next().value!);
+    this.cache.set(key, effective);
+    return effective;
+  }
+
+  /**
+   * Orders the level and all its ancestors, parents first. A level extended through several parents is merged once,
+   * where it first appears.
+   */
+  private linearize(level: InheritableLevel): InheritableLevel[] {
+    const order: InheritableLevel[] = [];
+    const visit = (current: InheritableLevel, stack: string[]) => {
+      const name = levelName(current);
+      if (stack.includes(name)) throw new LevelError(`The user levels extend each other: ${[...stack, name].join(" > ")}.`);
+      for (const parent of current.extends || []) {
+        const resolved = this.levels.get(parent);
+        if (!resolved) throw new LevelError(`The user level ${name} extends ${parent}, which is not registered.`);
+        visit(resolved, [...stack, name]);
+      }
+      if (!order.some((item) => levelName(item) === name)) order.push(current);
+    };
+    visit(level, []);
+    return order;
+  }
+}
+
+export const levelResolver = new LevelResolver();
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "bun:test";
+import { generateOpenApi } from "./OpenApiGenerator";
+
+describe("generateOpenApi", () => {
+  const editor: any = {
+    name: "editor",
+    actions: ["ReadPost"],
+    access: {
+      endpoints: {
+        posts: {
+          read: {
+            baseAction: "Post",
+            allowedUsers: ["Editor"],
+            query: { deniedKeys: ["secret"], default: { owner: "*current_user*" } },
+            rateLimit: { ttl: 60, max: 10 },
+          },
+        },
+      },
+    },
+  };
+  const admin: any = {
+    name: "admin",
+    actions: ["ReadPost"],
+    access: { endpoints: { posts: { read: { baseAction: "Post", allowedUsers: ["Admin"] } } } },
+  };
+
+  it("only shares who can call an endpoint", () => {
+    const document = generateOpenApi({
+      info: { title: "Posts", version: "1" },
+      levels: [editor, admin],
+      routes: [{ key: "posts.read", method: "GET", path: "/posts" }],
+    });
+    const operation = document.paths["/posts"].get;
+    expect(operation["x-brite-access"]).toEqual({ canVisitorVisit: false, allowedUsers: ["Editor", "Admin"] });
+    expect(Object.keys(operation.responses).sort()).toEqual(["200", "401", "403", "429"]);
+
+    const serialized = JSON.stringify(document);
+    for (const secret of ["editor", "admin", "secret", "current_user", '"ttl"']) expect(serialized).not.toContain(secret);
+  });
+});
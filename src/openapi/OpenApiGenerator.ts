@@ -0,0 +1,232 @@
+import type { IUserLevel } from "../types/level.types";
+import type { AnySchemaObject } from "ajv";
+import { get, isEmpty } from "lodash-es";
+import Channel, { type ChainKind } from "../channel/Channel";
+import type { EndpointPolicy } from "../channel/endpoint.types";
+import { type InheritableLevel, levelResolver } from "../level/LevelResolver";
+import { PROBLEM_CONTENT_TYPE } from "../errors/ProblemError";
+import { hashSchema } from "../schema/SchemaRegistry";
+import { getEntity } from "../context/ChannelContext";
+
+/**
+ * An HTTP route served by a chain. The policy of the route is read from `access.endpoints` at `key`, like the chain
+ * reads it with its path.
+ */
+export type OpenApiRoute = {
+  /** The endpoint key, e.g. posts.create. */
+  key: string;
+  method: string;
+  /** The URL with OpenAPI path params, e.g. /posts/{id}. */
+  path: string;
+  /** The model of the chain, its `docs:model` schema describes the documents. */
+  model?: Function;
+  /** Overrides the kind of chain mapped from the method by `Channel.methods`. */
+  kind?: ChainKind;
+  summary?: string;
+  tags?: string[];
+};
+
+export type OpenApiOptions = {
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  /** The levels whose endpoints are documented, the union of their endpoints if there are several. */
+  levels: InheritableLevel | InheritableLevel[];
+  routes: OpenApiRoute[];
+};
+
+export type OpenApiDocument = Record<string, any>;
+
+/** The query keys read by the ReadChain itself, they are not part of the filter. */
+const READ_PARAMETERS: Record<string, AnySchemaObject> = {
+  page: { type: "integer", minimum: 1 },
+  itemsCount: { type: "integer", minimum: 1 },
+  sort: { type: "string" },
+  projection: { type: "string" },
+  populate: { type: "string" },
+};
+
+const problemSchema: AnySchemaObject = {
+  type: "object",
+  properties: {
+    type: { type: "string" },
+    title: { type: "string" },
+    status: { type: "integer" },
+    detail: { type: "string" },
+    code: { type: "string" },
+    instance: { type: "string" },
+    errors: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          pointer: { type: "string" },
+          field: { type: "string" },
+          keyword: { type: "string" },
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+  required: ["type", "title", "status", "detail", "code"],
+};
+
+const rateLimitHeaders = {
+  "RateLimit-Limit": { schema: { type: "integer" } },
+  "RateLimit-Remaining": { schema: { type: "integer" } },
+  "RateLimit-Reset": { schema: { type: "integer" } },
+  "Retry-After": { schema: { type: "integer" } },
+};
+
+function problem(description: string, headers?: Record<string, any>) {
+  return {
+    description,
+    ...(headers && { headers }),
+    content: { [PROBLEM_CONTENT_TYPE]: { schema: { $ref: "#/components/schemas/Problem" } } },
+  };
+}
+
+/**
+ * Joins the schemas of several levels. The same schema is listed once, different schemas become `anyOf` variants.
+ */
+function unionSchemas(schemas: AnySchemaObject[]): AnySchemaObject | undefined {
+  const unique = [...new Map(schemas.map((schema) => [hashSchema(schema), schema])).values()];
+  if (unique.length <= 1) return unique[0];
+  return { anyOf: unique.flatMap((schema) => (schema.anyOf && Object.keys(schema).length === 1 ? schema.anyOf : [schema])) };
+}
+
+/**
+ * Converts a query schema into query parameters. The properties of every `anyOf` branch become parameters, a
+ * parameter is required if every branch requires it.
+ */
+function queryParameters(schema?: AnySchemaObject) {
+  if (!schema) return [];
+  const branches: AnySchemaObject[] = schema.anyOf || [schema];
+  const properties: Record<string, AnySchemaObject> = {};
+  for (const branch of branches) Object.assign(properties, branch.properties);
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: "query",
+    required: branches.every((branch) => branch.required?.includes(name)),
+    schema: property,
+  }));
+}
+
+function pathParameters(path: string) {
+  return [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({ name, in: "path", required: true, schema: { type: "string" } }));
+}
+
+/**
+ * Describes who can call an endpoint, added to the operation as `x-brite-access`. It only has what a client needs,
+ * the rest of the policy, like the denied keys, the default filters, the rate limits and the levels, stays private.
+ */
+function accessOf(endpoints: EndpointPolicy[]) {
+  const access: { canVisitorVisit: boolean; allowedUsers?: string[] } = {
+    canVisitorVisit: endpoints.some((endpoint) => !!endpoint.canVisitorVisit),
+  };
+  // the user types are only restricted if every level restricts them
+  if (endpoints.every((endpoint) => !isEmpty(endpoint.allowedUsers)))
+    access.allowedUsers = [...new Set(endpoints.flatMap((endpoint) => endpoint.allowedUsers!))];
+  return access;
+}
+
+/**
+ * Generates an OpenAPI 3.1 document from the endpoint policies of user levels and the schemas of the models, so the
+ * clients see the contract the chains enforce.
+ */
+export function generateOpenApi(options: OpenApiOptions): OpenApiDocument {
+  const levels = ([] as InheritableLevel[]).concat(options.levels);
+  const resolved = levels.map((level) => levelResolver.resolve(level) as IUserLevel);
+  const schemas: Record<string, AnySchemaObject> = { Problem: problemSchema };
+  const paths: Record<string, Record<string, any>> = {};
+
+  const modelRef = (model?: Function) => {
+    const schema = model && getEntity(model, "docs:model");
+    if (!schema) return undefined;
+    schemas[model.name] = schema;
+    return { $ref: `#/components/schemas/${model.name}` };
+  };
+
+  for (const route of options.routes) {
+    const kind = route.kind || Channel.methods[route.method.toUpperCase()];
+    const endpoints = resolved
+      .map((level) => get(level?.access?.endpoints, route.key) as EndpointPolicy | undefined)
+      .filter((endpoint): endpoint is EndpointPolicy => !!endpoint);
+    if (!endpoints.length) continue;
+
+    const model = modelRef(route.model);
+    const operation: Record<string, any> = {
+      operationId: route.key,
+      summary: route.summary,
+      tags: route.tags,
+      parameters: pathParameters(route.path),
+      responses: {} as Record<string, any>,
+      "x-brite-access": accessOf(endpoints),
+    };
+
+    const querySchema = unionSchemas(endpoints.flatMap((endpoint) => endpoint.query?.schemas || []));
+    operation.parameters.push(...queryParameters(querySchema));
+    if (kind === "read") {
+      const parameters = { ...READ_PARAMETERS };
+      const maxItems = Math.max(...endpoints.map((endpoint) => endpoint.query?.maxItems ?? Infinity));
+      if (maxItems !== Infinity) parameters.itemsCount = { ...parameters.itemsCount, maximum: maxItems };
+      if (endpoints.some((endpoint) => endpoint.query?.cursor)) parameters.cursor = { type: "string" };
+      operation.parameters.push(
+        ...Object.entries(parameters).map(([name, schema]) => ({ name, in: "query", required: false, schema }))
+      );
+    }
+
+    if (kind === "create" || kind === "update") {
+      const bodySchema = unionSchemas(
+        endpoints.flatMap((endpoint) => {
+          if (endpoint.body?.schemas) return [endpoint.body.schemas];
+          return kind === "create" && endpoint.body?.useDefaultSchema !== false && model ? [model] : [];
+        })
+      );
+      operation.requestBody = { required: true, content: { "application/json": { schema: bodySchema || { type: "object" } } } };
+    } else if (kind === "patch") {
+      operation.requestBody = {
+        required: true,
+        content: {
+          "application/json-patch+json": {
+            schema: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  op: { enum: ["add", "remove", "replace", "move", "copy", "test"] },
+                  path: { type: "string" },
+                  from: { type: "string" },
+                  value: {},
+                },
+                required: ["op", "path"],
+              },
+            },
+          },
+          "application/merge-patch+json": { schema: { type: "object" } },
+        },
+      };
+    }
+
+    const success = kind === "read" ? { type: "array", items: model || { type: "object" } } : model || { type: "object" };
+    operation.responses[kind === "create" ? "201" : "200"] = {
+      description: "The request passed every check of the chain.",
+      content: { "application/json": { schema: success } },
+    };
+    if (operation.requestBody || !isEmpty(querySchema)) operation.responses["400"] = problem("The request is malformed.");
+    if (endpoints.some((endpoint) => !endpoint.canVisitorVisit))
+      operation.responses["401"] = problem("Visitors must sign in first.");
+    operation.responses["403"] = problem("An action, key, schema or policy check denied the request.");
+    if (endpoints.some((endpoint) => endpoint.rateLimit))
+      operation.responses["429"] = problem("The rate limit of the endpoint is exceeded.", rateLimitHeaders);
+
+    (paths[route.path] ??= {})[route.method.toLowerCase()] = operation;
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: options.info,
+    ...(options.servers && { servers: options.servers }),
+    paths,
+    components: { schemas },
+  };
+}
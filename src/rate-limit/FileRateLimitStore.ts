@@ -0,0 +1,134 @@
+import { randomUUID } from "node:crypto";
+import type { Stats } from "node:fs";
+import { link, open, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { RateLimitStore, StoreUpdate } from "./RateLimitStore";
+
+type Entry = {
+  value: any;
+  expiresAt: number;
+};
+
+/** Milliseconds after which the lock of a crashed process is taken over. */
+const STALE_LOCK = 2000;
+
+/** Milliseconds between two attempts to take the lock. */
+const LOCK_RETRY = 5;
+
+function sameFile(a: Stats, b?: Stats) {
+  return b !== undefined && a.ino === b.ino && a.mtimeMs === b.mtimeMs;
+}
+
+async function statOf(path: string) {
+  return stat(path).catch((error) => {
+    if (error.code === "ENOENT") return undefined;
+    throw error;
+  });
+}
+
+/**
+ * A reference implementation of a persistent store. All entries live in a single JSON file which is
+ * read on every access, so instances on the same machine share their counters. Every write holds a lock file, so
+ * the instances never overwrite the counts of each other. It is meant for development and small deployments; use
+ * a database backed store when the instances are on different hosts.
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  constructor(private filePath: string) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entries = await this.read();
+    const entry = entries[key];
+    if (!entry || entry.expiresAt <= Date.now()) return undefined;
+    return entry.value;
+  }
+
+  async set<T>(key: string, value: T, ttl: number) {
+    await this.lock(async () => {
+      const entries = await this.read();
+      entries[key] = { value, expiresAt: Date.now() + ttl * 1000 };
+      await this.write(entries);
+    });
+  }
+
+  async del(key: string) {
+    await this.lock(async () => {
+      const entries = await this.read();
+      delete entries[key];
+      await this.write(entries);
+    });
+  }
+
+  async update<T, R>(key: string, updater: (value: T | undefined) => StoreUpdate<T, R>): Promise<R> {
+    return this.lock(async () => {
+      const entries = await this.read();
+      const entry = entries[key];
+      const { value, ttl, result } = updater(entry && entry.expiresAt > Date.now() ? entry.value : undefined);
+      entries[key] = { value, expiresAt: Date.now() + ttl * 1000 };
+      await this.write(entries);
+      return result;
+    });
+  }
+
+  /**
+   * Runs the function while holding the lock file of the store. The lock is only released if it is still the one
+   * this call created, so a process whose lock was taken over never removes the lock of another process.
+   */
+  private async lock<R>(fn: () => Promise<R>): Promise<R> {
+    const lockPath = `${this.filePath}.lock`;
+    let lock: Stats;
+    for (;;) {
+      try {
+        const handle = await open(lockPath, "wx");
+        lock = await handle.stat();
+        await handle.close();
+        break;
+      } catch (error: any) {
+        if (error.code !== "EEXIST") throw error;
+        const current = await statOf(lockPath);
+        if (current && Date.now() - current.mtimeMs > STALE_LOCK) await this.takeOver(lockPath, current);
+        else await sleep(LOCK_RETRY);
+      }
+    }
+    try {
+      return await fn();
+    } finally {
+      if (sameFile(lock, await statOf(lockPath))) await unlink(lockPath).catch(() => {});
+    }
+  }
+
+  /**
+   * Removes the stale lock of a crashed process. The lock is moved away first, which is atomic, and it is only
+   * removed if it is the same file that was found stale, otherwise it was renewed in between and is put back.
+   */
+  private async takeOver(lockPath: string, stale: Stats) {
+    const moved = `${lockPath}.${randomUUID()}.stale`;
+    try {
+      await rename(lockPath, moved);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return;
+      throw error;
+    }
+    // link doesn't replace a lock that was created meanwhile
+    if (!sameFile(stale, await statOf(moved))) await link(moved, lockPath).catch(() => {});
+    await unlink(moved);
+  }
+
+  private async read(): Promise<Record<string, Entry>> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf8"));
+    } catch {
+      return {};
+    }
+  }
+
+  private async write(entries: Record<string, Entry>) {
+    const now = Date.now();
+    for (const key of Object.keys(entries)) {
+      if (entries[key].expiresAt <= now) delete entries[key];
+    }
+    // write to a temporary file first, so a concurrent reader never sees a half written file
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(entries));
+    await rename(temp, this.filePath);
+  }
+}
@@ -0,0 +1,99 @@
+import type { MaybePromise } from "../types/util.types";
+import NodeCache from "node-cache";
+
+/**
+ * The new value of a key with its time to live in seconds, and the result returned to the caller of `update`.
+ */
+export type StoreUpdate<T, R> = {
+  value: T;
+  ttl: number;
+  result: R;
+};
+
+/**
+ * A key/value storage used by the rate limiter. Values must survive between requests and, when several
+ * instances run behind a load balancer, be shared between them.
+ */
+export interface RateLimitStore {
+  /**
+   * @param key The rate limit key.
+   * @returns The stored value or undefined if the key doesn't exist or has expired.
+   */
+  get<T>(key: string): MaybePromise<T | undefined>;
+
+  /**
+   * @param key The rate limit key.
+   * @param value The value to store.
+   * @param ttl Time to live in seconds.
+   */
+  set<T>(key: string, value: T, ttl: number): MaybePromise<void>;
+
+  del(key: string): MaybePromise<void>;
+
+  /**
+   * Reads and writes the value of a key atomically, no other update of the key may run in between, so concurrent
+   * requests never lose a count. The updater is synchronous and pure, a store may call it again when it retries,
+   * e.g. after a conflicting write of another instance.
+   * @param updater Receives the current value, undefined if the key doesn't exist or has expired.
+   * @returns The result of the updater.
+   */
+  update<T, R>(key: string, updater: (value: T | undefined) => StoreUpdate<T, R>): MaybePromise<R>;
+}
+
+type Entry = {
+  value: any;
+  expiresAt: number;
+};
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, Entry>();
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set<T>(key: string, value: T, ttl: number) {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+  }
+
+  del(key: string) {
+    this.entries.delete(key);
+  }
+
+  update<T, R>(key: string, updater: (value: T | undefined) => StoreUpdate<T, R>): R {
+    const { value, ttl, result } = updater(this.get<T>(key));
+    this.set(key, value, ttl);
+    return result;
+  }
+}
+
+/**
+ * Keeps the old behavior of storing the counters on the `NodeCache` passed to the chain.
+ */
+export class NodeCacheRateLimitStore implements RateLimitStore {
+  constructor(private cache: NodeCache) {}
+
+  get<T>(key: string): T | undefined {
+    return this.cache.get<T>(key);
+  }
+
+  set<T>(key: string, value: T, ttl: number) {
+    this.cache.set(key, value, ttl);
+  }
+
+  del(key: string) {
+    this.cache.del(key);
+  }
+
+  update<T, R>(key: string, updater: (value: T | undefined) => StoreUpdate<T, R>): R {
+    const { value, ttl, result } = updater(this.get<T>(key));
+    this.set(key, value, ttl);
+    return result;
+  }
+}
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileRateLimitStore } from "./FileRateLimitStore";
+import { MemoryRateLimitStore } from "./RateLimitStore";
+import { RateLimiter, rateLimitHeaders } from "./RateLimiter";
+
+describe("RateLimiter", () => {
+  it("counts the requests of a fixed window", async () => {
+    const limiter = new RateLimiter(new MemoryRateLimitStore());
+    expect(await limiter.consume("a", 60, 2)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await limiter.consume("a", 60, 2)).toMatchObject({ allowed: true, remaining: 0 });
+    const rejected = await limiter.consume("a", 60, 2);
+    expect(rejected).toMatchObject({ allowed: false, remaining: 0, retryAfter: 60 });
+    expect(rateLimitHeaders(rejected)).toEqual({
+      "RateLimit-Limit": "2",
+      "RateLimit-Remaining": "0",
+      "RateLimit-Reset": "60",
+      "Retry-After": "60",
+    });
+    expect(await limiter.consume("b", 60, 2)).toMatchObject({ allowed: true });
+  });
+
+  it("limits with a sliding window and a token bucket", async () => {
+    for (const algorithm of ["sliding-window", "token-bucket"] as const) {
+      const limiter = new RateLimiter(new MemoryRateLimitStore(), algorithm);
+      const results = [];
+      for (let i = 0; i < 3; i++) results.push((await limiter.consume("a", 60, 2)).allowed);
+      expect(results).toEqual([true, true, false]);
+    }
+  });
+});
+
+describe("FileRateLimitStore", () => {
+  let dir: string;
+
+  beforeEach(() => (dir = mkdtempSync(join(tmpdir(), "rate-limit-"))));
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("doesn't lose the counts of concurrent processes", async () => {
+    const file = join(dir, "limits.json");
+    const script = `
+      const { RateLimiter } = require(${JSON.stringify(join(import.meta.dir, "RateLimiter.ts"))});
+      const { FileRateLimitStore } = require(${JSON.stringify(join(import.meta.dir, "FileRateLimitStore.ts"))});
+      const limiter = new RateLimiter(new FileRateLimitStore(${JSON.stringify(file)}));
+      for (let i = 0; i < 20; i++) await limiter.consume("a", 60, 1000);
+    `;
+    const processes = [0, 1, 2].map(() => Bun.spawn([process.execPath, "-e", script], { stderr: "inherit" }));
+    expect(await Promise.all(processes.map((p) => p.exited))).toEqual([0, 0, 0]);
+    expect((await new FileRateLimitStore(file).get<{ count: number }>("a"))?.count).toBe(60);
+  });
+
+  it("takes over the lock of a crashed process", async () => {
+    const file = join(dir, "limits.json");
+    writeFileSync(`${file}.lock`, "");
+    utimesSync(`${file}.lock`, new Date(Date.now() - 60_000), new Date(Date.now() - 60_000));
+    const store = new FileRateLimitStore(file);
+    await store.set("a", 1, 60);
+    expect(await store.get<number>("a")).toBe(1);
+    expect(readdirSync(dir)).toEqual(["limits.json"]);
+  });
+});
@@ -0,0 +1,176 @@
+import type { IP, UserDocument } from "../types/user.types";
+import NodeCache from "node-cache";
+import { NodeCacheRateLimitStore, type RateLimitStore, type StoreUpdate } from "./RateLimitStore";
+
+export type RateLimitAlgorithm = "fixed-window" | "sliding-window" | "token-bucket";
+
+/**
+ * What a request is counted by.
+ * - ip: the remote address of the request.
+ * - user: the `_id` of the authenticated user.
+ * - action: the resolved action, e.g. CreatePost.
+ * - endpoint: the endpoint path.
+ */
+export type RateLimitKey = "ip" | "user" | "action" | "endpoint";
+
+export type RateLimitInfo = {
+  /** Whether the current request is accepted. */
+  allowed: boolean;
+  /** Maximum number of requests in a window. */
+  limit: number;
+  /** Number of requests left in the current window. */
+  remaining: number;
+  /** Seconds until the quota is fully or partially restored. */
+  reset: number;
+  /** Seconds the client should wait before retrying, only set when the request is rejected. */
+  retryAfter?: number;
+};
+
+export type RateLimitContext = {
+  path: string;
+  ip?: IP;
+  user?: UserDocument;
+  action?: string;
+};
+
+/**
+ * Computes the next state of a key from its current one. It runs inside `RateLimitStore.update`, so it must be pure.
+ */
+type Algorithm = (state: any, now: number, windows: number, max: number) => StoreUpdate<any, RateLimitInfo>;
+
+type FixedWindow = { count: number; start: number };
+type TokenBucket = { tokens: number; updatedAt: number };
+
+const fixedWindow: Algorithm = (state: FixedWindow | undefined, now, windows, max) => {
+  if (!state || now - state.start >= windows * 1000) state = { count: 0, start: now };
+
+  const reset = Math.max(0, Math.ceil((state.start + windows * 1000 - now) / 1000));
+  if (state.count >= max)
+    return {
+      value: state,
+      ttl: reset || windows,
+      result: { allowed: false, limit: max, remaining: 0, reset, retryAfter: reset },
+    };
+
+  const count = state.count + 1;
+  return {
+    value: { count, start: state.start },
+    ttl: reset || windows,
+    result: { allowed: true, limit: max, remaining: max - count, reset },
+  };
+};
+
+const slidingWindow: Algorithm = (state: number[] | undefined, now, windows, max) => {
+  const hits = (state || []).filter((time) => now - time < windows * 1000);
+
+  if (hits.length >= max) {
+    const reset = Math.ceil((hits[0] + windows * 1000 - now) / 1000);
+    return { value: hits, ttl: windows, result: { allowed: false, limit: max, remaining: 0, reset, retryAfter: reset } };
+  }
+
+  hits.push(now);
+  return {
+    value: hits,
+    ttl: windows,
+    result: {
+      allowed: true,
+      limit: max,
+      remaining: max - hits.length,
+      reset: Math.ceil((hits[0] + windows * 1000 - now) / 1000),
+    },
+  };
+};
+
+const tokenBucket: Algorithm = (state: TokenBucket | undefined, now, windows, max) => {
+  // tokens refilled per second
+  const rate = max / windows;
+  const current = state || { tokens: max, updatedAt: now };
+  const tokens = Math.min(max, current.tokens + ((now - current.updatedAt) / 1000) * rate);
+
+  if (tokens < 1) {
+    const retryAfter = Math.ceil((1 - tokens) / rate);
+    return {
+      value: { tokens, updatedAt: now },
+      ttl: windows,
+      result: { allowed: false, limit: max, remaining: 0, reset: retryAfter, retryAfter },
+    };
+  }
+
+  const left = tokens - 1;
+  return {
+    value: { tokens: left, updatedAt: now },
+    ttl: windows,
+    result: { allowed: true, limit: max, remaining: Math.floor(left), reset: Math.ceil((max - left) / rate) },
+  };
+};
+
+const algorithms: Record<RateLimitAlgorithm, Algorithm> = {
+  "fixed-window": fixedWindow,
+  "sliding-window": slidingWindow,
+  "token-bucket": tokenBucket,
+};
+
+let defaultStore: RateLimitStore | undefined;
+
+/**
+ * Sets the store used by every chain. Without a store the chains fall back to the `NodeCache` they receive.
+ */
+export function setRateLimitStore(store?: RateLimitStore) {
+  defaultStore = store;
+}
+
+export function getRateLimitStore(cache?: NodeCache): RateLimitStore | undefined {
+  if (defaultStore) return defaultStore;
+  if (cache) return new NodeCacheRateLimitStore(cache);
+}
+
+/**
+ * Builds the storage key of a request.
+ * @returns The key or undefined if a part of the key is not available, e.g. there is no ip.
+ */
+export function buildRateLimitKey(keyBy: RateLimitKey | RateLimitKey[], ctx: RateLimitContext): string | undefined {
+  const parts: string[] = [];
+  for (const k of Array.isArray(keyBy) ? keyBy : [keyBy]) {
+    let part: string | undefined;
+    if (k === "ip") part = ctx.ip?.address;
+    else if (k === "user") part = ctx.user?._id?.toString();
+    else if (k === "action") part = ctx.action;
+    else if (k === "endpoint") part = ctx.path;
+    if (!part) return undefined;
+    parts.push(part);
+  }
+  return `rate-limit:${parts.join("-")}`;
+}
+
+export class RateLimiter {
+  constructor(
+    private store: RateLimitStore,
+    private algorithm: RateLimitAlgorithm = "fixed-window"
+  ) {}
+
+  /**
+   * Counts a request against the quota of the key, in a single atomic update of the store.
+   * @param windows Time window in seconds.
+   * @param max Maximum number of requests allowed per window.
+   */
+  async consume(key: string, windows: number, max: number): Promise<RateLimitInfo> {
+    const algorithm = algorithms[this.algorithm];
+    if (!algorithm) throw new Error(`Unknown rate limit algorithm ${this.algorithm}`);
+    const now = Date.now();
+    return await this.store.update(key, (state) => algorithm(state, now, windows, max));
+  }
+}
+
+/**
+ * Converts the rate limit info into the `RateLimit-*` and `Retry-After` response headers.
+ */
+export function rateLimitHeaders(info?: RateLimitInfo): Record<string, string> {
+  if (!info) return {};
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": info.limit.toString(),
+    "RateLimit-Remaining": info.remaining.toString(),
+    "RateLimit-Reset": info.reset.toString(),
+  };
+  if (info.retryAfter !== undefined) headers["Retry-After"] = info.retryAfter.toString();
+  return headers;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import Ajv from "ajv";
+import { SchemaRegistry } from "./SchemaRegistry";
+
+const schema = (max: number) => ({ type: "integer", maximum: max });
+
+describe("SchemaRegistry", () => {
+  it("caches the validators by the content of the schema", () => {
+    const registry = new SchemaRegistry(new Ajv());
+    const validate = registry.getValidator(schema(5));
+    expect(registry.getValidator(schema(5))).toBe(validate);
+    expect(validate(6)).toBe(false);
+  });
+
+  it("removes the evicted schemas from ajv", () => {
+    const ajv = new Ajv();
+    const removeSchema = spyOn(ajv, "removeSchema");
+    const registry = new SchemaRegistry(ajv, 2);
+    registry.precompile([schema(0)]);
+    const first = schema(1);
+    registry.getValidator(first);
+    registry.getValidator(schema(2));
+
+    expect(registry.size).toBe(2);
+    expect(registry.has(schema(0))).toBe(true);
+    expect(registry.has(first)).toBe(false);
+    expect(removeSchema).toHaveBeenCalledTimes(1);
+    expect(removeSchema).toHaveBeenCalledWith(first);
+
+    registry.clear();
+    expect(removeSchema).toHaveBeenCalledTimes(3);
+  });
+
+  it("precompiles the schemas whose patterns only look like templates", () => {
+    const registry = new SchemaRegistry(new Ajv());
+    const result = registry.precompile([{ type: "string", pattern: "^a*b*$" }, { const: "*current_user*" }]);
+    expect(result).toEqual({ compiled: 1, templated: 1 });
+  });
+});
@@ -0,0 +1,187 @@
+import type { IUserLevel } from "../types/level.types";
+import Ajv, { type AnySchemaObject, type ValidateFunction } from "ajv";
+import standaloneCode from "ajv/dist/standalone";
+import { createHash } from "node:crypto";
+import { getChannelContext, getEntity } from "../context/ChannelContext";
+import { hasTemplate } from "../channel/template.util";
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object" && !(value instanceof Date) && !(value instanceof RegExp)) {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+/**
+ * A stable hash of a schema, the order of the keys doesn't matter.
+ */
+export function hashSchema(schema: AnySchemaObject): string {
+  return createHash("sha1").update(stableStringify(schema)).digest("hex");
+}
+
+/**
+ * Whether a schema has template variables, a schema with templates is resolved per request before it is compiled.
+ */
+export function hasTemplates(schema: AnySchemaObject) {
+  return hasTemplate(JSON.stringify(schema));
+}
+
+export type PrecompileResult = {
+  compiled: number;
+  /** Schemas with template variables, they are compiled once they are resolved for a request. */
+  templated: number;
+};
+
+/**
+ * Caches the compiled validators by the hash of their schema. Schemas are hashed after their template variables are
+ * resolved, so the validators of templated schemas are cached per resolved value and the least recently used ones
+ * are dropped once the cache is full.
+ */
+export class SchemaRegistry {
+  private validators = new Map<string, ValidateFunction>();
+  private pinned = new Set<string>();
+  /** The validators compiled by ajv, unlike the loaded standalone ones. */
+  private compiled = new WeakSet<ValidateFunction>();
+
+  /**
+   * @param instance The ajv instance used to compile, defaults to the ajv of the channel context.
+   * @param maxSize Maximum number of cached validators, the precompiled and prebuilt ones are never dropped.
+   */
+  constructor(
+    private instance?: Ajv,
+    private maxSize = 1000
+  ) {}
+
+  private get ajv(): Ajv {
+    return this.instance ?? getChannelContext().ajv;
+  }
+
+  getValidator(schema: AnySchemaObject): ValidateFunction {
+    const hash = hashSchema(schema);
+    let validate = this.validators.get(hash);
+    if (validate) {
+      // move it to the end, the first entries are the least recently used
+      this.validators.delete(hash);
+      this.validators.set(hash, validate);
+      return validate;
+    }
+
+    validate = this.ajv.compile(schema);
+    this.compiled.add(validate);
+    this.validators.set(hash, validate);
+    this.evict();
+    return validate;
+  }
+
+  has(schema: AnySchemaObject) {
+    return this.validators.has(hashSchema(schema));
+  }
+
+  get size() {
+    return this.validators.size;
+  }
+
+  clear() {
+    for (const validate of this.validators.values()) this.release(validate);
+    this.validators.clear();
+    this.pinned.clear();
+  }
+
+  /**
+   * Compiles the schemas ahead of the first request. Each `anyOf` branch is compiled too, because the chains
+   * validate the branches one by one.
+   */
+  precompile(schemas: AnySchemaObject[]): PrecompileResult {
+    const result: PrecompileResult = { compiled: 0, templated: 0 };
+    for (const schema of schemas) {
+      if (!schema) continue;
+      if (hasTemplates(schema)) {
+        result.templated++;
+        continue;
+      }
+      for (const s of [schema, ...(schema.anyOf || [])]) {
+        this.getValidator(s);
+        this.pinned.add(hashSchema(s));
+        result.compiled++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Compiles the body and query schemas of every endpoint of the user levels and the model schemas, e.g. at boot.
+   * @param models The models whose `docs:model` schema is used when an endpoint has no body schema.
+   */
+  precompileLevels(levels: IUserLevel[], models: Function[] = []): PrecompileResult {
+    const schemas: AnySchemaObject[] = [];
+    for (const level of levels) collectSchemas(level?.access?.endpoints, schemas);
+    for (const model of models) {
+      const schema = getEntity(model, "docs:model");
+      if (schema) schemas.push(schema);
+    }
+    return this.precompile(schemas);
+  }
+
+  /**
+   * Generates the code of an ES module exporting a validator for every cached schema, named `h<hash>`.
+   * The ajv instance must be created with `code: { source: true, esm: true }`.
+   */
+  generateStandalone(instance: Ajv = this.ajv): string {
+    const refs: Record<string, string> = {};
+    for (const [hash, validate] of this.validators) {
+      const id = `h${hash}`;
+      if (!instance.getSchema(id)) instance.addSchema(validate.schema as AnySchemaObject, id);
+      refs[id] = id;
+    }
+    return standaloneCode(instance, refs);
+  }
+
+  /**
+   * Loads the validators of a module generated by `generateStandalone`, so nothing is compiled at runtime.
+   */
+  loadStandalone(validators: Record<string, ValidateFunction>) {
+    for (const [id, validate] of Object.entries(validators)) {
+      const hash = id.replace(/^h/, "");
+      this.validators.set(hash, validate);
+      this.pinned.add(hash);
+    }
+  }
+
+  private evict() {
+    for (const [hash, validate] of this.validators) {
+      if (this.validators.size <= this.maxSize) return;
+      if (this.pinned.has(hash)) continue;
+      this.validators.delete(hash);
+      this.release(validate);
+    }
+  }
+
+  /**
+   * Removes a dropped validator from the cache of ajv too, otherwise ajv keeps every schema it ever compiled.
+   */
+  private release(validate: ValidateFunction) {
+    if (this.compiled.has(validate)) this.ajv.removeSchema(validate.schema as AnySchemaObject);
+  }
+}
+
+function collectSchemas(node: any, schemas: AnySchemaObject[]) {
+  if (!node || typeof node !== "object") return;
+  // an endpoint schema has a body or query with schemas, the other objects group endpoints by path
+  for (const part of [node.body, node.query]) {
+    if (part?.schemas) schemas.push(part.schemas);
+  }
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== "body" && key !== "query") collectSchemas(value, schemas);
+  }
+}
+
+export const schemaRegistry = new SchemaRegistry();
+
+/**
+ * Returns the cached validator of the schema, compiling it on the first use.
+ */
+export function compileSchema(schema: AnySchemaObject): ValidateFunction {
+  return schemaRegistry.getValidator(schema);
+}
@@ -0,0 +1,216 @@
+import type { AnySchemaObject } from "ajv";
+
+const stringList = { type: "array", items: { type: "string" } };
+
+/** `deniedKeysValue` maps key paths to a value, a list of values or a value condition. */
+const keyMatcher = {
+  type: "object",
+  additionalProperties: {
+    anyOf: [
+      { type: "string" },
+      stringList,
+      {
+        type: "object",
+        properties: {
+          $eq: {},
+          $in: { type: "array" },
+          $nin: { type: "array" },
+          $regex: { type: "string" },
+          $options: { type: "string" },
+          $gt: { type: ["number", "string"] },
+          $gte: { type: ["number", "string"] },
+          $lt: { type: ["number", "string"] },
+          $lte: { type: ["number", "string"] },
+          $type: { anyOf: [{ type: "string" }, stringList] },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+};
+
+const jsonSchema = { type: "object" };
+
+const queryPolicy = {
+  type: "object",
+  properties: {
+    allowedOperators: stringList,
+    forbiddenOperators: stringList,
+    maxDepth: { type: "integer", minimum: 1 },
+    maxInSize: { type: "integer", minimum: 0 },
+    regex: {
+      type: "object",
+      properties: {
+        allow: { type: "boolean" },
+        anchored: { type: "boolean" },
+        maxLength: { type: "integer", minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+    allowDotPaths: { type: "boolean" },
+    allowedPaths: stringList,
+  },
+  additionalProperties: false,
+};
+
+const uploadConstraints = {
+  mimeTypes: stringList,
+  maxSize: { type: "integer", minimum: 0 },
+  maxCount: { type: "integer", minimum: 0 },
+  filename: { type: "string" },
+  onRollback: { enum: ["restore", "delete"] },
+};
+
+const uploads = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: { field: { type: "string" }, acl: { type: "string" }, directory: { type: "string" }, ...uploadConstraints },
+    required: ["field"],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * The JSON meta-schema of an `EndpointSchema`, with every option understood by the chains. Unknown keys are
+ * rejected, so a typo like `deniedkeys` is reported instead of silently ignored.
+ */
+export const endpointMetaSchema: AnySchemaObject = {
+  $id: "brite-validation/endpoint",
+  type: "object",
+  properties: {
+    baseAction: { type: "string", minLength: 1 },
+    canVisitorVisit: { type: "boolean" },
+    shouldCheckAction: { type: "boolean" },
+    allowedUsers: stringList,
+    rateLimit: {
+      type: "object",
+      properties: {
+        ttl: { type: "number", exclusiveMinimum: 0 },
+        max: { type: "integer", minimum: 0 },
+        algorithm: { enum: ["fixed-window", "sliding-window", "token-bucket"] },
+        keyBy: {
+          anyOf: [
+            { enum: ["ip", "user", "action", "endpoint"] },
+            { type: "array", items: { enum: ["ip", "user", "action", "endpoint"] } },
+          ],
+        },
+      },
+      required: ["ttl", "max"],
+      additionalProperties: false,
+    },
+    query: {
+      type: "object",
+      properties: {
+        deniedKeys: stringList,
+        deniedKeysValue: keyMatcher,
+        schemas: jsonSchema,
+        default: { type: ["object", "array"] },
+        options: { type: ["object", "array"] },
+        merge: { type: "boolean" },
+        isPrior: { type: "boolean" },
+        errorTitle: { type: "string" },
+        errorMessage: { type: "string" },
+        privateFields: {
+          type: "object",
+          properties: { mode: { enum: ["reject", "strip"] }, maxDepth: { type: "integer", minimum: 0 } },
+          additionalProperties: false,
+        },
+        policy: queryPolicy,
+        maxItems: { type: "integer", minimum: 1 },
+        defaultItems: { type: "integer", minimum: 1 },
+        cursor: {
+          oneOf: [
+            { type: "boolean" },
+            {
+              type: "object",
+              properties: {
+                sort: { type: "object", additionalProperties: { enum: [1, -1] } },
+                sortFields: stringList,
+                ttl: { type: "integer", minimum: 1 },
+              },
+              additionalProperties: false,
+            },
+          ],
+        },
+      },
+      additionalProperties: false,
+    },
+    body: {
+      type: "object",
+      properties: {
+        deniedKeys: stringList,
+        deniedKeysValue: keyMatcher,
+        schemas: jsonSchema,
+        default: { type: ["object", "array"] },
+        useDefaultSchema: { type: "boolean" },
+        uploads,
+        fileUploads: {
+          type: "object",
+          properties: { acl: { type: "string" }, ...uploadConstraints },
+          additionalProperties: false,
+        },
+        operators: stringList,
+        patch: {
+          type: "object",
+          properties: {
+            deniedOps: { type: "array", items: { enum: ["add", "remove", "replace", "move", "copy", "test"] } },
+            checkChangeActions: { type: "boolean" },
+          },
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+    },
+    audit: {
+      type: "object",
+      properties: { disabled: { type: "boolean" }, redact: stringList, redactKeys: stringList },
+      additionalProperties: false,
+    },
+    bulk: {
+      type: "object",
+      properties: { mode: { enum: ["atomic", "partial"] }, maxItems: { type: "integer", minimum: 1 } },
+      additionalProperties: false,
+    },
+    tenant: { type: "boolean" },
+    softDelete: {
+      anyOf: [
+        { type: "boolean" },
+        {
+          type: "object",
+          properties: { field: { type: "string" }, byField: { type: "string" } },
+          additionalProperties: false,
+        },
+      ],
+    },
+    response: {
+      type: "object",
+      properties: {
+        fields: stringList,
+        masks: { type: "object", additionalProperties: { type: "object", additionalProperties: { type: "string" } } },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+/** The keys that make an object of `access.endpoints` an endpoint, the other objects group endpoints by path. */
+export const ENDPOINT_KEYS = Object.keys(endpointMetaSchema.properties);
+
+/**
+ * The JSON meta-schema of a user level. The endpoints are checked one by one with `endpointMetaSchema`.
+ */
+export const levelMetaSchema: AnySchemaObject = {
+  $id: "brite-validation/level",
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    extends: stringList,
+    actions: stringList,
+    access: {
+      type: "object",
+      properties: { endpoints: { type: "object" } },
+    },
+  },
+};
@@ -0,0 +1,161 @@
+import Ajv, { type ErrorObject } from "ajv";
+import { isPlainObject } from "lodash-es";
+import { parseCondition } from "../channel/condition.util";
+import { constructAction, createAjv } from "../context/ChannelContext";
+import { ENDPOINT_KEYS, endpointMetaSchema, levelMetaSchema } from "./policy.schema";
+
+export type PolicyProblem = {
+  /** Where the problem is, e.g. access.endpoints.posts.create.query.deniedkeys. */
+  path: string;
+  message: string;
+  severity: "error" | "warning";
+};
+
+export type ValidatePolicyOptions = {
+  /** The known base actions, e.g. Post or Comment. An unknown `baseAction` is reported, it is not checked if not set. */
+  baseActions?: string[];
+  /** Compiles the `schemas` of the endpoints, defaults to an instance with the formats, keywords and errors plugins. */
+  ajv?: Ajv;
+};
+
+const metaAjv = new Ajv({ allErrors: true, strict: false });
+const validateEndpoint = metaAjv.compile(endpointMetaSchema);
+const validateLevel = metaAjv.compile(levelMetaSchema);
+
+function join(path: string, key: string | number) {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function toProblems(path: string, errors?: ErrorObject[] | null): PolicyProblem[] {
+  return (errors || []).map((error) => {
+    let location = error.instancePath.split("/").filter(Boolean).reduce(join, path);
+    let message = error.message || "is invalid";
+    if (error.keyword === "additionalProperties") {
+      location = join(location, error.params.additionalProperty);
+      message = "is not a known option";
+    }
+    if (error.keyword === "enum") message += `: ${error.params.allowedValues.join(", ")}`;
+    return { path: location, message, severity: "error" };
+  });
+}
+
+/**
+ * Checks the options that the meta-schema can't: the `schemas` must compile and the defaults and options given per
+ * `anyOf` branch must have one entry per branch.
+ */
+function checkSchemas(section: any, path: string, ajv: Ajv, problems: PolicyProblem[]) {
+  if (!isPlainObject(section)) return;
+  const schema = section.schemas;
+  if (isPlainObject(schema)) {
+    try {
+      ajv.compile(schema);
+    } catch (error: any) {
+      problems.push({ path: join(path, "schemas"), message: `doesn't compile: ${error.message}`, severity: "error" });
+    } finally {
+      ajv.removeSchema(schema);
+    }
+  }
+
+  for (const key of ["default", "options"]) {
+    if (!Array.isArray(section[key])) continue;
+    if (!Array.isArray(schema?.anyOf)) {
+      problems.push({
+        path: join(path, key),
+        message: "is a list, but the schemas have no anyOf branches to pick an entry from",
+        severity: "warning",
+      });
+    } else if (section[key].length !== schema.anyOf.length) {
+      problems.push({
+        path: join(path, key),
+        message: `has ${section[key].length} entries, but the schemas have ${schema.anyOf.length} anyOf branches`,
+        severity: "error",
+      });
+    }
+  }
+}
+
+function checkEndpoint(endpoint: any, path: string, options: ValidatePolicyOptions, ajv: Ajv, problems: PolicyProblem[]) {
+  if (!validateEndpoint(endpoint)) problems.push(...toProblems(path, validateEndpoint.errors));
+
+  checkSchemas(endpoint.query, join(path, "query"), ajv, problems);
+  checkSchemas(endpoint.body, join(path, "body"), ajv, problems);
+
+  if (options.baseActions && typeof endpoint.baseAction === "string" && !options.baseActions.includes(endpoint.baseAction))
+    problems.push({
+      path: join(path, "baseAction"),
+      message: `${endpoint.baseAction} is not a known base action`,
+      severity: "error",
+    });
+}
+
+/**
+ * Walks a tree of endpoints. An object with one of the endpoint options is an endpoint, the others group endpoints
+ * by path, like `access.endpoints` is read with the path of a chain.
+ */
+function checkEndpoints(tree: any, path: string, options: ValidatePolicyOptions, ajv: Ajv, problems: PolicyProblem[]) {
+  for (const [key, node] of Object.entries(tree)) {
+    const current = join(path, key);
+    if (!isPlainObject(node))
+      problems.push({ path: current, message: "must be an endpoint or a group of endpoints", severity: "error" });
+    else if (Object.keys(node as object).some((option) => ENDPOINT_KEYS.includes(option)))
+      checkEndpoint(node, current, options, ajv, problems);
+    else checkEndpoints(node, current, options, ajv, problems);
+  }
+}
+
+/** The prefixes of the actions of the chains, e.g. UpdatePost. */
+const CHAIN_PREFIXES = ["Create", "Read", "Update", "Delete", "Restore"];
+/** The prefixes of the actions the chains check besides their own, e.g. ChangePostTitle. */
+const OTHER_PREFIXES = ["Change", "IncludeDeleted", "CrossTenant"];
+
+/**
+ * Whether an action is the action of a chain, the only actions whose conditions are enforced. Without the known
+ * base actions, a field action like ReadPostTitle can't be told apart from the action of a chain.
+ */
+function isChainAction(action: string, baseActions?: string[]) {
+  if (baseActions) return CHAIN_PREFIXES.some((prefix) => baseActions.some((base) => constructAction(base, prefix) === action));
+  return !OTHER_PREFIXES.some((prefix) => action.startsWith(prefix));
+}
+
+function checkLevel(level: any, path: string, options: ValidatePolicyOptions, ajv: Ajv, problems: PolicyProblem[]) {
+  if (!validateLevel(level)) problems.push(...toProblems(path, validateLevel.errors));
+
+  (Array.isArray(level.actions) ? level.actions : []).forEach((entry: any, index: number) => {
+    if (typeof entry !== "string") return;
+    const [action, condition] = entry.split(/\s+when\s+(.*)/s);
+    if (condition === undefined) return;
+    try {
+      parseCondition(condition);
+    } catch (error: any) {
+      problems.push({ path: join(join(path, "actions"), index), message: error.message, severity: "error" });
+    }
+    if (!isChainAction(action.trim(), options.baseActions))
+      problems.push({
+        path: join(join(path, "actions"), index),
+        message: `only the actions of the chains can have a condition, the conditional grant of ${action.trim()} is ignored`,
+        severity: "error",
+      });
+  });
+
+  const endpoints = level.access?.endpoints;
+  if (isPlainObject(endpoints)) checkEndpoints(endpoints, join(join(path, "access"), "endpoints"), options, ajv, problems);
+}
+
+/**
+ * Validates a policy: a user level, a list of user levels or a tree of endpoints. Besides the meta-schemas, it checks
+ * that the `schemas` compile, that the per-branch defaults match the `anyOf` branches, that the base actions are
+ * known and that the action conditions parse and belong to the actions of the chains.
+ * @returns Every problem with its path, empty if the policy is valid.
+ */
+export function validatePolicy(policy: any, options: ValidatePolicyOptions = {}): PolicyProblem[] {
+  const problems: PolicyProblem[] = [];
+  const ajv = options.ajv || createAjv();
+
+  if (Array.isArray(policy)) policy.forEach((level, index) => checkLevel(level, `[${index}]`, options, ajv, problems));
+  else if (!isPlainObject(policy)) problems.push({ path: "", message: "must be an object or a list", severity: "error" });
+  else if ("access" in policy || "actions" in policy) checkLevel(policy, "", options, ajv, problems);
+  else checkEndpoints(policy, "", options, ajv, problems);
+
+  return problems;
+}
@@ -0,0 +1,84 @@
+import { mkdir, rename, rm, stat } from "node:fs/promises";
+import { dirname, extname, relative, resolve, sep } from "node:path";
+import { DEFAULT_UPLOAD_PREFIX, type StorageProvider, type StoredFileInfo } from "./StorageProvider";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".json": "application/json",
+  ".mp4": "video/mp4",
+  ".mp3": "audio/mpeg",
+  ".zip": "application/zip",
+};
+
+/**
+ * @returns The content type of a file name by its extension, e.g. image/png for avatar.png.
+ */
+export function contentTypeOf(name: string): string | undefined {
+  return CONTENT_TYPES[extname(name).toLowerCase()];
+}
+
+/**
+ * Stores the files in a directory of the local filesystem, e.g. for development or a single server. The content
+ * type of a file is derived from its extension.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  private root: string;
+
+  /**
+   * @param root The directory the keys are relative to.
+   * @param baseUrl The url the directory is served at, e.g. https://cdn.example.com/files/.
+   * @param uploadPrefix The prefix of the temporary keys, defaults to tmp/.
+   */
+  constructor(
+    root: string,
+    private baseUrl = "/files/",
+    readonly uploadPrefix = DEFAULT_UPLOAD_PREFIX
+  ) {
+    this.root = resolve(root);
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | undefined> {
+    try {
+      const file = await stat(this.pathOf(key));
+      return file.isFile() ? { size: file.size, contentType: contentTypeOf(key) } : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async move(from: string, to: string) {
+    const target = this.pathOf(to);
+    await mkdir(dirname(target), { recursive: true });
+    await rename(this.pathOf(from), target);
+  }
+
+  async delete(key: string) {
+    await rm(this.pathOf(key), { force: true });
+  }
+
+  keyOf(url: string) {
+    return url.startsWith(this.baseUrl) ? url.slice(this.baseUrl.length) : url;
+  }
+
+  urlOf(key: string) {
+    return `${this.baseUrl}${key}`;
+  }
+
+  /**
+   * @throws {Error} If the key points outside of the root, e.g. ../../etc/passwd.
+   */
+  private pathOf(key: string) {
+    const path = resolve(this.root, key);
+    const inside = relative(this.root, path);
+    if (!inside || inside.startsWith("..") || inside.startsWith(sep)) throw new Error(`The key ${key} is outside of the storage`);
+    return path;
+  }
+}
@@ -0,0 +1,65 @@
+import { DEFAULT_UPLOAD_PREFIX, type MoveOptions, type StorageProvider, type StoredFileInfo } from "./StorageProvider";
+
+type S3Command = new (input: any) => any;
+
+export type S3StorageOptions = {
+  /** An S3Client of the AWS SDK v3, or any client with the same `send`. */
+  client: { send(command: any): Promise<any> };
+  bucket: string;
+  /** The command classes of `@aws-sdk/client-s3`, the package is not a dependency of this one. */
+  commands: { HeadObjectCommand: S3Command; CopyObjectCommand: S3Command; DeleteObjectCommand: S3Command };
+  /** The url of the bucket, defaults to its virtual-hosted url. */
+  baseUrl?: string;
+  /** The prefix of the temporary keys, defaults to tmp/. */
+  uploadPrefix?: string;
+};
+
+/**
+ * Stores the files in an S3 bucket. A move is a copy followed by a delete, S3 has no rename.
+ */
+export class S3StorageProvider implements StorageProvider {
+  private baseUrl: string;
+  readonly uploadPrefix: string;
+
+  constructor(private options: S3StorageOptions) {
+    this.baseUrl = options.baseUrl ?? `https://${options.bucket}.s3.amazonaws.com/`;
+    this.uploadPrefix = options.uploadPrefix ?? DEFAULT_UPLOAD_PREFIX;
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | undefined> {
+    const { client, bucket, commands } = this.options;
+    try {
+      const head = await client.send(new commands.HeadObjectCommand({ Bucket: bucket, Key: key }));
+      return { size: head.ContentLength ?? 0, contentType: head.ContentType };
+    } catch (error: any) {
+      if (error?.name === "NotFound" || error?.$metadata?.httpStatusCode === 404) return undefined;
+      throw error;
+    }
+  }
+
+  async move(from: string, to: string, options?: MoveOptions) {
+    const { client, bucket, commands } = this.options;
+    await client.send(
+      new commands.CopyObjectCommand({
+        Bucket: bucket,
+        CopySource: `${bucket}/${from.split("/").map(encodeURIComponent).join("/")}`,
+        Key: to,
+        ACL: options?.acl,
+      })
+    );
+    await this.delete(from);
+  }
+
+  async delete(key: string) {
+    const { client, bucket, commands } = this.options;
+    await client.send(new commands.DeleteObjectCommand({ Bucket: bucket, Key: key }));
+  }
+
+  keyOf(url: string) {
+    return decodeURIComponent(url.startsWith(this.baseUrl) ? url.slice(this.baseUrl.length) : url);
+  }
+
+  urlOf(key: string) {
+    return `${this.baseUrl}${key.split("/").map(encodeURIComponent).join("/")}`;
+  }
+}
@@ -0,0 +1,97 @@
+import type { MaybePromise } from "../types/util.types";
+
+export type StoredFileInfo = {
+  /** The size in bytes. */
+  size: number;
+  contentType?: string;
+};
+
+export type MoveOptions = {
+  /** The ACL of the moved file, e.g. public-read. Providers without ACLs ignore it. */
+  acl?: string;
+};
+
+/**
+ * Where the uploaded files are stored. Clients upload their files to a temporary key and send its url, the chains
+ * move the files to the directory of the endpoint and store their new url.
+ */
+export interface StorageProvider {
+  /**
+   * The prefix of the temporary keys the clients upload to, e.g. tmp/. The chains only move files from under it, so a
+   * client can't make them move any other file of the storage.
+   */
+  readonly uploadPrefix: string;
+
+  /**
+   * @returns The size and content type of the file or undefined if it doesn't exist.
+   */
+  stat(key: string): MaybePromise<StoredFileInfo | undefined>;
+
+  move(from: string, to: string, options?: MoveOptions): MaybePromise<void>;
+
+  delete(key: string): MaybePromise<void>;
+
+  /**
+   * @returns The key of a url sent by the client.
+   */
+  keyOf(url: string): string;
+
+  /**
+   * @returns The url stored in the document for the key.
+   */
+  urlOf(key: string): string;
+}
+
+export const DEFAULT_UPLOAD_PREFIX = "tmp/";
+
+type MemoryFile = StoredFileInfo & {
+  content: Uint8Array;
+  acl?: string;
+};
+
+/**
+ * Keeps the files in memory, e.g. for tests or a single instance without persistent files.
+ */
+export class MemoryStorageProvider implements StorageProvider {
+  files = new Map<string, MemoryFile>();
+
+  /**
+   * @param uploadPrefix The prefix of the temporary keys, defaults to tmp/.
+   */
+  constructor(
+    private baseUrl = "memory://",
+    readonly uploadPrefix = DEFAULT_UPLOAD_PREFIX
+  ) {}
+
+  /**
+   * Stores a file, e.g. the temporary upload of a client.
+   */
+  put(key: string, content: Uint8Array | string, contentType?: string) {
+    const bytes = typeof content === "string" ? new TextEncoder().encode(content) : content;
+    this.files.set(key, { content: bytes, size: bytes.byteLength, contentType });
+  }
+
+  stat(key: string): StoredFileInfo | undefined {
+    const file = this.files.get(key);
+    return file && { size: file.size, contentType: file.contentType };
+  }
+
+  move(from: string, to: string, options?: MoveOptions) {
+    const file = this.files.get(from);
+    if (!file) throw new Error(`The file ${from} doesn't exist`);
+    this.files.delete(from);
+    this.files.set(to, { ...file, acl: options?.acl ?? file.acl });
+  }
+
+  delete(key: string) {
+    this.files.delete(key);
+  }
+
+  keyOf(url: string) {
+    return url.startsWith(this.baseUrl) ? url.slice(this.baseUrl.length) : url;
+  }
+
+  urlOf(key: string) {
+    return `${this.baseUrl}${key}`;
+  }
+}
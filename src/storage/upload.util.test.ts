@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { UploadRejectedError } from "../errors/ProblemError";
+import { MemoryStorageProvider } from "./StorageProvider";
+import { checkUpload, moveUploads, rollbackUploads } from "./upload.util";
+
+describe("uploads", () => {
+  let storage: MemoryStorageProvider;
+
+  beforeEach(() => {
+    storage = new MemoryStorageProvider();
+    storage.put("tmp/avatar.png", "avatar", "image/png");
+    storage.put("users/42/contract.pdf", "contract", "application/pdf");
+  });
+
+  it("moves a temporary upload into the directory of its field", async () => {
+    const upload = { field: "avatar", directory: "avatars" };
+    await checkUpload(storage, upload, "memory://tmp/avatar.png");
+    const { files, moved } = await moveUploads(storage, [upload], { avatar: "memory://tmp/avatar.png" });
+    expect(files).toEqual({ avatar: "memory://avatars/avatar.png" });
+    expect(storage.stat("avatars/avatar.png")).toBeDefined();
+
+    await rollbackUploads(storage, moved);
+    expect(storage.stat("tmp/avatar.png")).toBeDefined();
+    expect(storage.stat("avatars/avatar.png")).toBeUndefined();
+  });
+
+  it("rejects files outside of the upload prefix", async () => {
+    const upload = { field: "avatar", directory: "avatars" };
+    for (const url of ["memory://users/42/contract.pdf", "users/42/contract.pdf", "tmp/../users/42/contract.pdf"]) {
+      await expect(checkUpload(storage, upload, url)).rejects.toBeInstanceOf(UploadRejectedError);
+      await expect(moveUploads(storage, [upload], { avatar: url })).rejects.toBeInstanceOf(UploadRejectedError);
+    }
+    expect(storage.stat("users/42/contract.pdf")).toBeDefined();
+  });
+
+  it("keeps a file already at its target", async () => {
+    const upload = { field: "avatar", directory: "tmp" };
+    const { files, moved } = await moveUploads(storage, [upload], { avatar: "tmp/avatar.png" });
+    expect(files).toEqual({ avatar: "memory://tmp/avatar.png" });
+    expect(moved).toEqual([]);
+    expect(storage.stat("tmp/avatar.png")).toBeDefined();
+  });
+
+  it("checks the constraints of the upload", async () => {
+    const upload = { field: "avatar", directory: "avatars", mimeTypes: ["application/pdf"] };
+    await expect(checkUpload(storage, upload, "tmp/avatar.png")).rejects.toBeInstanceOf(UploadRejectedError);
+    await expect(checkUpload(storage, { ...upload, mimeTypes: ["image/*"], maxSize: 2 }, "tmp/avatar.png")).rejects.toThrow(
+      UploadRejectedError
+    );
+    await expect(checkUpload(storage, { ...upload, mimeTypes: ["image/*"] }, "tmp/missing.png")).rejects.toThrow(
+      UploadRejectedError
+    );
+  });
+});
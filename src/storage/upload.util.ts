@@ -0,0 +1,131 @@
+import type { Uploads } from "../types/level.types";
+import { get, set } from "lodash-es";
+import { logger } from "../context/ChannelContext";
+import { UploadRejectedError } from "../errors/ProblemError";
+import { contentTypeOf } from "./LocalStorageProvider";
+import type { StorageProvider } from "./StorageProvider";
+
+export type UploadConstraints = {
+  /** The accepted content types, e.g. `["image/png", "image/*"]`. */
+  mimeTypes?: string[];
+  /** The largest accepted file in bytes. */
+  maxSize?: number;
+  /** The most files a field may have when its value is a list. */
+  maxCount?: number;
+  /** A regular expression the file names must match, e.g. `^[\\w-]+\\.pdf$`. */
+  filename?: string;
+  /** What a rollback does with the moved files: move them back to their temporary key or delete them. */
+  onRollback?: "restore" | "delete";
+};
+
+export type UploadPolicy = Uploads & UploadConstraints;
+
+export type MovedUpload = {
+  field: string;
+  from: string;
+  to: string;
+  onRollback: "restore" | "delete";
+};
+
+function basename(key: string) {
+  return key.split("/").pop() || key;
+}
+
+function toList(value: any): string[] {
+  return (Array.isArray(value) ? value : [value]).filter((item) => typeof item === "string");
+}
+
+/**
+ * @returns The key of a file sent by the client.
+ * @throws {UploadRejectedError} If the file is not a temporary upload, e.g. the file of another document.
+ */
+function uploadKey(storage: StorageProvider, field: string, url: string) {
+  const key = storage.keyOf(url);
+  const segments = key.split("/");
+  if (!key.startsWith(storage.uploadPrefix) || segments.some((segment) => segment === ".." || segment === "."))
+    throw new UploadRejectedError(field, `the file ${basename(key)} is not a temporary upload`);
+  return key;
+}
+
+function matchesType(type: string | undefined, accepted: string[]) {
+  if (!type) return false;
+  return accepted.some((pattern) => (pattern.endsWith("/*") ? type.startsWith(pattern.slice(0, -1)) : type === pattern));
+}
+
+/**
+ * Checks the files of a field against the constraints of its upload. Without a storage provider the files can't be
+ * read, so their size is not checked and their content type is derived from their extension.
+ * @throws {UploadRejectedError} If a file is missing or violates a constraint.
+ */
+export async function checkUpload(storage: StorageProvider | undefined, upload: UploadPolicy, value: any) {
+  const urls = toList(value);
+  if (upload.maxCount !== undefined && urls.length > upload.maxCount)
+    throw new UploadRejectedError(upload.field, `it has ${urls.length} files but at most ${upload.maxCount} are accepted`);
+
+  for (const url of urls) {
+    const key = storage ? uploadKey(storage, upload.field, url) : url;
+    const name = basename(key);
+    if (upload.filename && !new RegExp(upload.filename).test(name))
+      throw new UploadRejectedError(upload.field, `the file name ${name} is not accepted`);
+
+    const info = storage ? await storage.stat(key) : undefined;
+    if (storage && !info) throw new UploadRejectedError(upload.field, `the file ${name} doesn't exist`);
+
+    const type = info?.contentType ?? contentTypeOf(name);
+    if (upload.mimeTypes && !matchesType(type, upload.mimeTypes))
+      throw new UploadRejectedError(upload.field, `the type ${type ?? "unknown"} is not accepted`);
+
+    if (upload.maxSize !== undefined && info && info.size > upload.maxSize)
+      throw new UploadRejectedError(upload.field, `the file is ${info.size} bytes but at most ${upload.maxSize} are accepted`);
+  }
+}
+
+/**
+ * Moves the files back to their temporary key or deletes them, the last moved file first. A file that can't be
+ * compensated is logged, so it doesn't hide the error that caused the rollback.
+ */
+export async function rollbackUploads(storage: StorageProvider, moved: MovedUpload[]) {
+  for (const file of [...moved].reverse()) {
+    try {
+      if (file.onRollback === "delete") await storage.delete(file.to);
+      else await storage.move(file.to, file.from);
+    } catch (error) {
+      logger.error("Upload rollback failed", { file, error });
+    }
+  }
+}
+
+/**
+ * Moves the files of the fields into the directories of their uploads. Only the temporary uploads under the
+ * `uploadPrefix` of the storage are moved. If a move fails the files moved before it are rolled back.
+ * @returns The urls of the moved files by field and the moved files, to roll them back if a later step fails.
+ */
+export async function moveUploads(storage: StorageProvider, uploads: UploadPolicy[], data: any) {
+  const files: Record<string, any> = {};
+  const moved: MovedUpload[] = [];
+  try {
+    for (const upload of uploads) {
+      const value = get(data, upload.field);
+      const urls = toList(value);
+      if (!urls.length) continue;
+
+      const directory = upload.directory.replace(/\/+$/, "");
+      const targets: string[] = [];
+      for (const url of urls) {
+        const from = uploadKey(storage, upload.field, url);
+        const to = `${directory}/${basename(from)}`;
+        // a copy onto itself followed by a delete would lose the file
+        if (from !== to) {
+          await storage.move(from, to, { acl: upload.acl });
+          moved.push({ field: upload.field, from, to, onRollback: upload.onRollback || "restore" });
+        }
+        targets.push(storage.urlOf(to));
+      }
+      set(files, upload.field, Array.isArray(value) ? targets : targets[0]);
+    }
+  } catch (error) {
+    await rollbackUploads(storage, moved);
+    throw error;
+  }
+  return { files, moved };
+}
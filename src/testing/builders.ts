@@ -0,0 +1,182 @@
+import type { EndpointSchema, EndpointTree } from "../types/level.types";
+import type { IP, UserDocument } from "../types/user.types";
+import { merge, set } from "lodash-es";
+import { Types } from "mongoose";
+import { toIP } from "../channel/adapters/RequestAdapter";
+import type { EndpointPolicy, EndpointRateLimit } from "../channel/endpoint.types";
+import type { KeyMatcher } from "../channel/path.util";
+import type { InheritableLevel } from "../level/LevelResolver";
+
+/**
+ * Builds an endpoint of a user level, e.g. `anEndpoint("Post").deniedBodyKeys("author").build()`.
+ */
+export class EndpointBuilder {
+  private endpoint: EndpointPolicy = {} as EndpointPolicy;
+
+  constructor(baseAction?: string) {
+    if (baseAction) this.endpoint.baseAction = baseAction;
+  }
+
+  baseAction(baseAction: string) {
+    this.endpoint.baseAction = baseAction;
+    return this;
+  }
+
+  /** Lets visitors use the endpoint, they are rejected by default. */
+  visitors(canVisit = true) {
+    this.endpoint.canVisitorVisit = canVisit;
+    return this;
+  }
+
+  /** Only the users of these types may use the endpoint. */
+  users(...types: string[]) {
+    this.endpoint.allowedUsers = types as any;
+    return this;
+  }
+
+  /** Skips the check of the action of the chain, e.g. CreatePost. */
+  skipAction() {
+    this.endpoint.shouldCheckAction = false;
+    return this;
+  }
+
+  rateLimit(ttl: number, max: number, options?: Omit<EndpointRateLimit, "ttl" | "max">) {
+    this.endpoint.rateLimit = { ttl, max, ...options };
+    return this;
+  }
+
+  deniedQueryKeys(...keys: string[]) {
+    return this.query({ deniedKeys: keys });
+  }
+
+  deniedQueryValues(record: KeyMatcher) {
+    return this.query({ deniedKeysValue: record });
+  }
+
+  deniedBodyKeys(...keys: string[]) {
+    return this.body({ deniedKeys: keys });
+  }
+
+  deniedBodyValues(record: KeyMatcher) {
+    return this.body({ deniedKeysValue: record });
+  }
+
+  query(query: Partial<NonNullable<EndpointPolicy["query"]>>) {
+    return this.with({ query } as Partial<EndpointPolicy>);
+  }
+
+  body(body: Partial<NonNullable<EndpointPolicy["body"]>>) {
+    return this.with({ body } as Partial<EndpointPolicy>);
+  }
+
+  /** Deep merges any other option of the endpoint, e.g. `{ softDelete: true }`. */
+  with(options: Partial<EndpointPolicy>) {
+    merge(this.endpoint, options);
+    return this;
+  }
+
+  build(): EndpointPolicy {
+    return structuredClone(this.endpoint);
+  }
+}
+
+/**
+ * Builds a user level, e.g. `aLevel().allow("CreatePost").endpoint("posts.create", anEndpoint("Post")).build()`.
+ */
+export class LevelBuilder {
+  private level: InheritableLevel & { actions: string[]; access: { endpoints: EndpointTree } } = {
+    actions: [],
+    access: { endpoints: {} },
+  };
+
+  named(name: string) {
+    this.level.name = name;
+    return this;
+  }
+
+  /** The names of the registered levels this level extends. */
+  extends(...parents: string[]) {
+    this.level.extends = [...(this.level.extends || []), ...parents];
+    return this;
+  }
+
+  allow(...actions: string[]) {
+    this.level.actions.push(...actions);
+    return this;
+  }
+
+  /** Denies the actions with `!Action`, a denial overrides the grants of the parents. */
+  deny(...actions: string[]) {
+    this.level.actions.push(...actions.map((action) => `!${action}`));
+    return this;
+  }
+
+  /**
+   * @param path The path of the endpoint, e.g. posts.create.
+   */
+  endpoint(path: string, endpoint: EndpointBuilder | EndpointPolicy | EndpointSchema) {
+    set(this.level.access.endpoints, path, endpoint instanceof EndpointBuilder ? endpoint.build() : endpoint);
+    return this;
+  }
+
+  build(): InheritableLevel {
+    return structuredClone(this.level);
+  }
+}
+
+/**
+ * Builds an authenticated user, e.g. `aUser("Admin").level(aLevel().allow("ReadPost")).build()`.
+ */
+export class UserBuilder {
+  private user: Record<string, any>;
+
+  constructor(type = "User") {
+    this.user = { _id: new Types.ObjectId(), type };
+  }
+
+  id(id: string | Types.ObjectId) {
+    this.user._id = typeof id === "string" ? new Types.ObjectId(id) : id;
+    return this;
+  }
+
+  type(type: string) {
+    this.user.type = type;
+    return this;
+  }
+
+  level(level: LevelBuilder | InheritableLevel) {
+    this.user.level = level instanceof LevelBuilder ? level.build() : level;
+    return this;
+  }
+
+  /** Sets any other field of the user, e.g. `{ organization }` for the tenant resolver. */
+  with(fields: Record<string, any>) {
+    Object.assign(this.user, fields);
+    return this;
+  }
+
+  build(): UserDocument {
+    return { ...this.user } as UserDocument;
+  }
+}
+
+export function aUser(type?: string) {
+  return new UserBuilder(type);
+}
+
+export function aVisitor() {
+  return new UserBuilder("Visitor");
+}
+
+export function aLevel(name?: string) {
+  const builder = new LevelBuilder();
+  return name ? builder.named(name) : builder;
+}
+
+export function anEndpoint(baseAction?: string) {
+  return new EndpointBuilder(baseAction);
+}
+
+export function anIp(address = "127.0.0.1"): IP {
+  return toIP(address)!;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "bun:test";
+import type { Chain } from "../channel/chain";
+import { ChainAssertionError } from "../errors/Errors";
+import { ActionDeniedError } from "../errors/ProblemError";
+import { StatusError } from "../errors/StatusError";
+import { expectChain } from "./expectChain";
+
+function chainOf(perform: () => Promise<any>) {
+  return { perform } as Chain;
+}
+
+describe("expectChain", () => {
+  it("checks the action, status and code of a denial", async () => {
+    const chain = chainOf(async () => {
+      throw new ActionDeniedError("CreatePost");
+    });
+    const error = await expectChain(chain).toDeny("CreatePost").withStatus(403);
+    expect(error).toBeInstanceOf(ActionDeniedError);
+    await expect(Promise.resolve(expectChain(chain).toDeny("ReadPost"))).rejects.toThrow(ChainAssertionError);
+    await expect(Promise.resolve(expectChain(chain).toDeny().withStatus(401))).rejects.toThrow(ChainAssertionError);
+  });
+
+  it("doesn't count a crash as a denial", async () => {
+    const crash = chainOf(async () => {
+      throw new TypeError("broken");
+    });
+    await expect(Promise.resolve(expectChain(crash).toDeny())).rejects.toThrow(ChainAssertionError);
+
+    const serverError = chainOf(async () => {
+      throw new StatusError(500, "Internal", "broken");
+    });
+    await expect(Promise.resolve(expectChain(serverError).toDeny())).rejects.toThrow(ChainAssertionError);
+    expect(await expectChain(serverError).toDeny().withStatus(500)).toBeInstanceOf(StatusError);
+  });
+
+  it("checks the result of an allowed chain", async () => {
+    const chain = chainOf(async () => ({ filter: { owner: "1", status: "public" } }));
+    await expectChain(chain).toProduceFilter({ owner: "1" });
+    await expect(expectChain(chain).toProduceFilter({ owner: "2" })).rejects.toThrow(ChainAssertionError);
+    await expect(Promise.resolve(expectChain(chain).toDeny())).rejects.toThrow(ChainAssertionError);
+  });
+});
@@ -0,0 +1,129 @@
+import { isMatch } from "lodash-es";
+import type { Chain } from "../channel/chain";
+import { ChainAssertionError } from "../errors/Errors";
+import { ProblemError } from "../errors/ProblemError";
+import { StatusError } from "../errors/StatusError";
+
+type Outcome = { result?: any; error?: any };
+
+function describe(outcome: Outcome) {
+  const { error } = outcome;
+  if (!error) return `it was allowed with ${JSON.stringify(outcome.result)}`;
+  if (error instanceof ProblemError) return `it was denied with ${error.status} ${error.code} ${JSON.stringify(error.params)}`;
+  if (error instanceof StatusError) return `it was denied with ${error.status} ${error.message}`;
+  return `it threw ${error}`;
+}
+
+/**
+ * Expects a chain to be denied, e.g. `await expectChain(chain).toDeny("CreatePost").withStatus(403)`. The checks run
+ * when it is awaited and it resolves to the error of the chain.
+ */
+export class DenialExpectation implements PromiseLike<StatusError> {
+  private status?: number;
+  private code?: string;
+
+  constructor(
+    private outcome: () => Promise<Outcome>,
+    private action?: string
+  ) {}
+
+  withStatus(status: number) {
+    this.status = status;
+    return this;
+  }
+
+  /** The code of the problem, e.g. ErrorCode.KeyDenied. */
+  withCode(code: string) {
+    this.code = code;
+    return this;
+  }
+
+  private async check(): Promise<StatusError> {
+    const outcome = await this.outcome();
+    const error = outcome.error;
+    const fail: (expected: string) => never = (expected) => {
+      throw new ChainAssertionError(`Expected the chain to be denied${expected && ` ${expected}`}, but ${describe(outcome)}`);
+    };
+
+    if (!(error instanceof StatusError)) fail(this.action ? `the action ${this.action}` : "");
+    // a server error is not a denial unless its status is expected
+    if (this.status === undefined && error.status >= 500) fail(this.action ? `the action ${this.action}` : "");
+    if (this.action && (error as ProblemError).params?.action !== this.action) fail(`the action ${this.action}`);
+    if (this.status !== undefined && error.status !== this.status) fail(`with status ${this.status}`);
+    if (this.code !== undefined && (error as ProblemError).code !== this.code) fail(`with code ${this.code}`);
+    return error;
+  }
+
+  then<R1 = StatusError, R2 = never>(
+    onfulfilled?: ((value: StatusError) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+  ): PromiseLike<R1 | R2> {
+    return this.check().then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * Assertions on the outcome of a chain. The chain is performed once, by the first assertion awaited.
+ */
+export class ChainExpectation {
+  private outcome?: Promise<Outcome>;
+
+  constructor(private chain: Chain | (() => Chain)) {}
+
+  private run(): Promise<Outcome> {
+    this.outcome ??= (async () => {
+      try {
+        // the constructor of a chain runs the action, user and rate limit checks
+        const chain = typeof this.chain === "function" ? this.chain() : this.chain;
+        return { result: await chain.perform() };
+      } catch (error) {
+        return { error };
+      }
+    })();
+    return this.outcome;
+  }
+
+  /**
+   * @returns The result of the chain.
+   * @throws {ChainAssertionError} If the chain was denied.
+   */
+  async toAllow<T = any>(): Promise<T> {
+    const outcome = await this.run();
+    if (outcome.error) throw new ChainAssertionError(`Expected the chain to be allowed, but ${describe(outcome)}`);
+    return outcome.result;
+  }
+
+  /**
+   * @param action The action the denial names, e.g. CreatePost for a missing action or ChangePostAuthor for a denied
+   * key. Any denial passes if not set.
+   */
+  toDeny(action?: string): DenialExpectation {
+    return new DenialExpectation(() => this.run(), action);
+  }
+
+  /**
+   * Expects the filter of the result to contain the filter, e.g. the default filter or the tenant of the endpoint.
+   */
+  async toProduceFilter(filter: Record<string, any>) {
+    return this.toProduce({ filter });
+  }
+
+  /**
+   * Expects the result to contain the values, e.g. `{ update: { $set: { title: "x" } } }`.
+   */
+  async toProduce(expected: Record<string, any>) {
+    const result = await this.toAllow();
+    if (!isMatch(result, expected))
+      throw new ChainAssertionError(
+        `Expected the chain to produce ${JSON.stringify(expected)}, but it produced ${JSON.stringify(result)}`
+      );
+    return result;
+  }
+}
+
+/**
+ * @param chain The chain or a function creating it, a function is needed to assert the checks its constructor runs.
+ */
+export function expectChain(chain: Chain | (() => Chain)) {
+  return new ChainExpectation(chain);
+}
@@ -0,0 +1,98 @@
+import type { Uploads } from "../types/level.types";
+import { get, set } from "lodash-es";
+import NodeCache from "node-cache";
+import { configureChannel } from "../context/ChannelContext";
+
+type Entry = {
+  value: any;
+  /** 0 means the entry never expires. */
+  expiresAt: number;
+};
+
+/**
+ * An in-memory replacement of the `NodeCache` the chains receive. It has the methods the chains and the rate limiter
+ * use; `asNodeCache` returns it with the type the chains expect.
+ */
+export class MemoryCache {
+  private entries = new Map<string, Entry>();
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  /**
+   * @param ttl Time to live in seconds, the entry never expires if not set.
+   */
+  set<T>(key: string, value: T, ttl?: number | string): boolean {
+    this.entries.set(key, { value, expiresAt: ttl ? Date.now() + Number(ttl) * 1000 : 0 });
+    return true;
+  }
+
+  has(key: string) {
+    return this.get(key) !== undefined;
+  }
+
+  del(keys: string | string[]): number {
+    return (Array.isArray(keys) ? keys : [keys]).filter((key) => this.entries.delete(key)).length;
+  }
+
+  keys() {
+    return [...this.entries.keys()];
+  }
+
+  flushAll() {
+    this.entries.clear();
+  }
+
+  asNodeCache(): NodeCache {
+    return this as unknown as NodeCache;
+  }
+}
+
+export type MovedFile = {
+  upload: Uploads;
+  /** The value of the field sent by the client. */
+  from: any;
+  /** The value of the field after the move. */
+  to: string;
+};
+
+/**
+ * Records the uploaded files the chains move instead of moving them. `install` makes it the storage mover of the
+ * channel context.
+ */
+export class MemoryStorage {
+  moved: MovedFile[] = [];
+
+  /**
+   * @param baseUrl The moved files get the url `<baseUrl>/<directory>/<file name>`.
+   */
+  constructor(private baseUrl = "memory://storage") {}
+
+  moveFieldsFile = async (uploads: Uploads[], data: any): Promise<Record<string, any>> => {
+    const files: Record<string, any> = {};
+    for (const upload of uploads) {
+      const from = get(data, upload.field);
+      if (typeof from !== "string") continue;
+      const to = `${this.baseUrl}/${upload.directory}/${from.split("/").pop()}`;
+      this.moved.push({ upload, from, to });
+      set(files, upload.field, to);
+    }
+    return files;
+  };
+
+  install() {
+    configureChannel({ moveFieldsFile: this.moveFieldsFile });
+    return this;
+  }
+
+  reset() {
+    this.moved = [];
+  }
+}
@@ -0,0 +1,6 @@
+export * from "./builders";
+export * from "./expectChain";
+export * from "./fakes";
+export * from "./policyMatrix";
+export { ChainAssertionError } from "../errors/Errors";
+export { MemoryStorageProvider } from "../storage/StorageProvider";
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { configureChannel, resetChannel } from "../context/ChannelContext";
+import { ChainAssertionError } from "../errors/Errors";
+import { aLevel, anEndpoint } from "./builders";
+import { assertPolicyMatrix, runPolicyMatrix } from "./policyMatrix";
+
+class Post {}
+
+const level = aLevel()
+  .allow("ReadPost", "CreatePost")
+  .endpoint("posts.read", anEndpoint("Post").users("Admin", "User"))
+  .endpoint("posts.create", anEndpoint("Post").users("Admin"));
+
+describe("policy matrix", () => {
+  beforeEach(() => configureChannel({ getEntity: (_, key) => (key === "docs:model" ? { type: "object" } : undefined) }));
+  afterEach(() => resetChannel());
+
+  it("checks the outcome of every row", async () => {
+    const results = await assertPolicyMatrix(
+      level,
+      [
+        { userType: "User", method: "GET", path: "posts.read", expect: "allow" },
+        { userType: "Guest", method: "GET", path: "posts.read", expect: "deny" },
+        { userType: "User", method: "POST", path: "posts.create", expect: 403 },
+        { userType: "Admin", method: "POST", path: "posts.create", body: { title: "a" }, expect: "allow" },
+      ],
+      { model: Post }
+    );
+    expect(results.map((result) => result.actual)).toEqual(["allow", 403, 403, "allow"]);
+  });
+
+  it("doesn't count a crash as a denial", async () => {
+    configureChannel({
+      getEntity: () => {
+        throw new TypeError("broken model");
+      },
+    });
+    const rows = [{ userType: "Admin", method: "POST", path: "posts.create", body: {}, expect: "deny" as const }];
+    const [result] = await runPolicyMatrix(level, rows, { model: Post });
+    expect(result).toMatchObject({ passed: false, actual: 500 });
+    await expect(assertPolicyMatrix(level, rows, { model: Post })).rejects.toThrow(ChainAssertionError);
+  });
+});
@@ -0,0 +1,109 @@
+import NodeCache from "node-cache";
+import Channel from "../channel/Channel";
+import type { InheritableLevel } from "../level/LevelResolver";
+import { ChainAssertionError } from "../errors/Errors";
+import { StatusError } from "../errors/StatusError";
+import { LevelBuilder, aUser } from "./builders";
+
+export type PolicyMatrixRow = {
+  userType: string;
+  /** The HTTP method, mapped to a chain by `Channel.methods`. */
+  method: string;
+  /** The path of the endpoint in the level, defaults to the path of the options. */
+  path?: string;
+  /** `allow`, `deny` for any 4xx status error or the status of the denial, e.g. 401 for a visitor. */
+  expect: "allow" | "deny" | number;
+  body?: any;
+  query?: Record<string, any>;
+  params?: Record<string, any>;
+};
+
+export type PolicyMatrixOptions = {
+  /** The model the chains are created for. */
+  model: Function;
+  path?: string;
+  baseAction?: string;
+  /** Other fields of the users, e.g. their organization. */
+  user?: Record<string, any>;
+  cache?: NodeCache;
+};
+
+export type PolicyMatrixResult = {
+  row: PolicyMatrixRow;
+  passed: boolean;
+  /** `allow` or the status of the denial. */
+  actual: "allow" | number;
+  error?: any;
+};
+
+function format(result: PolicyMatrixResult) {
+  const { row, actual, error } = result;
+  const reason = error instanceof StatusError ? ` (${error.title})` : error ? ` (${error})` : "";
+  const request = [row.userType, row.method, row.path].filter(Boolean).join(" ");
+  return `${request}: expected ${row.expect}, got ${actual}${reason}`;
+}
+
+/**
+ * Runs a chain for every row of the table against the level and compares its outcome with the expected one.
+ */
+export async function runPolicyMatrix(
+  level: LevelBuilder | InheritableLevel,
+  rows: PolicyMatrixRow[],
+  options: PolicyMatrixOptions
+): Promise<PolicyMatrixResult[]> {
+  const built = level instanceof LevelBuilder ? level.build() : level;
+  const results: PolicyMatrixResult[] = [];
+
+  for (const row of rows) {
+    const user = aUser(row.userType)
+      .with(options.user || {})
+      .level(built)
+      .build();
+    const endpointKey = row.path ?? options.path;
+    if (!endpointKey) throw new ChainAssertionError(`The row ${row.userType} ${row.method} has no path`);
+
+    let actual: "allow" | number = "allow";
+    let error: any;
+    try {
+      const chain = Channel.fromRequest(
+        {
+          method: row.method,
+          body: row.body ?? {},
+          query: row.query ?? {},
+          params: row.params,
+          user,
+          endpointKey,
+          cache: options.cache,
+        },
+        options.model,
+        options.baseAction
+      );
+      await chain.perform();
+    } catch (e) {
+      error = e;
+      actual = e instanceof StatusError ? e.status : 500;
+    }
+
+    // a crash is not a denial, e.g. a TypeError of a broken hook must not pass as "deny"
+    const denied = error instanceof StatusError && error.status >= 400 && error.status < 500;
+    const passed = row.expect === "allow" ? actual === "allow" : row.expect === "deny" ? denied : actual === row.expect;
+    results.push({ row, passed, actual, error });
+  }
+  return results;
+}
+
+/**
+ * Runs the policy matrix and throws if a row has another outcome than the expected one.
+ * @throws {ChainAssertionError} Listing every failed row.
+ */
+export async function assertPolicyMatrix(
+  level: LevelBuilder | InheritableLevel,
+  rows: PolicyMatrixRow[],
+  options: PolicyMatrixOptions
+) {
+  const results = await runPolicyMatrix(level, rows, options);
+  const failed = results.filter((result) => !result.passed);
+  if (failed.length)
+    throw new ChainAssertionError(`${failed.length} of ${results.length} rows failed:\n${failed.map(format).join("\n")}`);
+  return results;
+}
@@ -0,0 +1,57 @@
+import type { KeyMatcher } from "../channel/path.util";
+import type { UserType } from "./user.types";
+
+/**
+ * A file field of a body that is moved from its temporary key to the directory of the upload.
+ */
+export type Uploads = {
+  field: string;
+  directory: string;
+  acl?: string;
+};
+
+/**
+ * The rules of an endpoint as stored on a user level. `EndpointPolicy` adds the options understood by the chains.
+ */
+export type EndpointSchema = {
+  baseAction?: string;
+  canVisitorVisit?: boolean;
+  shouldCheckAction?: boolean;
+  allowedUsers?: UserType[];
+  rateLimit?: { ttl: number; max: number };
+  query?: {
+    deniedKeys?: string[];
+    deniedKeysValue?: KeyMatcher;
+    schemas?: any;
+    default?: any;
+    options?: any;
+    merge?: boolean;
+    isPrior?: boolean;
+    errorTitle?: string;
+    errorMessage?: string;
+  };
+  body?: {
+    deniedKeys?: string[];
+    deniedKeysValue?: KeyMatcher;
+    schemas?: any;
+    default?: any;
+    useDefaultSchema?: boolean;
+    uploads?: Uploads[];
+  };
+};
+
+/**
+ * The endpoints of a user level, keyed by their path. Objects that are not endpoints group endpoints, e.g.
+ * `posts.create`.
+ */
+export type EndpointTree = { [key: string]: EndpointSchema | EndpointTree };
+
+/**
+ * A user level: the actions its users hold and the rules of the endpoints they can use.
+ */
+export interface IUserLevel {
+  name?: string;
+  actions?: string[];
+  access?: { endpoints?: EndpointTree };
+  updatedAt?: Date;
+}
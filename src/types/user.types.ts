@@ -0,0 +1,26 @@
+import type { IUserLevel } from "./level.types";
+
+/**
+ * The type of an account, e.g. admin or visitor. The chains only compare it with the `allowedUsers` of an endpoint.
+ */
+export type UserType = string;
+
+/**
+ * The remote address of a request.
+ */
+export type IP = {
+  address: string;
+  family?: string;
+  port?: number;
+};
+
+/**
+ * The authenticated user of a request, usually a mongoose document. The chains read its id, its type and its user
+ * level, the other fields are available to the templates and the tenant resolver.
+ */
+export type UserDocument = {
+  _id?: any;
+  type?: UserType;
+  level?: IUserLevel | any;
+  [field: string]: any;
+};
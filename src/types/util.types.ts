@@ -0,0 +1,15 @@
+import type { FilterQuery } from "mongoose";
+
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * The filter of a read request with its paging, projection, sort and populate options.
+ */
+export type FindFilter<I> = FilterQuery<I> & {
+  itemsCount?: number | string;
+  page?: number | string;
+  projection?: any;
+  sort?: any;
+  populate?: any;
+  cursor?: string;
+};